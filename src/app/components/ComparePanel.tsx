@@ -0,0 +1,119 @@
+import { ChangeEvent, useState } from "react";
+import type { ArrayMatchMode, DiffOptions, DiffResult } from "../types";
+
+interface ComparePanelProps {
+  counts: DiffResult["counts"] | null;
+  onlyDifferences: boolean;
+  isComparing: boolean;
+  onCompare: (source: string | File, options: DiffOptions) => void;
+  onOnlyDifferencesChange: (value: boolean) => void;
+  onExit: () => void;
+}
+
+function ComparePanel({
+  counts,
+  onlyDifferences,
+  isComparing,
+  onCompare,
+  onOnlyDifferencesChange,
+  onExit,
+}: ComparePanelProps) {
+  const [compareInput, setCompareInput] = useState("");
+  const [arrayMatch, setArrayMatch] = useState<ArrayMatchMode>("index");
+  const [matchKey, setMatchKey] = useState("id");
+
+  const options: DiffOptions = { arrayMatch, matchKey: matchKey.trim() || "id" };
+
+  const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) onCompare(file, options);
+    event.target.value = "";
+  };
+
+  const totalDifferences = counts
+    ? counts.added + counts.removed + counts["type-changed"] + counts["value-changed"]
+    : 0;
+
+  return (
+    <div className="compare-panel">
+      <div className="compare-header">
+        <h3>Compare with another document</h3>
+        <button type="button" className="copy-btn" onClick={onExit}>
+          Exit Compare
+        </button>
+      </div>
+      <textarea
+        className="textarea compare-textarea"
+        value={compareInput}
+        onChange={(event) => setCompareInput(event.target.value)}
+        readOnly={isComparing}
+        placeholder="Paste the JSON to compare against the loaded document..."
+        aria-label="Document to compare"
+      />
+      <div className="search-row">
+        <label className="button button-secondary compare-upload">
+          Upload File
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="compare-file-input"
+            onChange={handleFileChange}
+            disabled={isComparing}
+          />
+        </label>
+        <select
+          className="mode-select"
+          value={arrayMatch}
+          onChange={(event) => setArrayMatch(event.target.value as ArrayMatchMode)}
+          aria-label="Array matching"
+        >
+          <option value="index">Match arrays by index</option>
+          <option value="key">Match arrays by key</option>
+        </select>
+        {arrayMatch === "key" && (
+          <input
+            type="text"
+            className="search-input compare-key-input"
+            value={matchKey}
+            onChange={(event) => setMatchKey(event.target.value)}
+            placeholder="id"
+            aria-label="Array match key"
+          />
+        )}
+        <button
+          type="button"
+          className="button"
+          onClick={() => onCompare(compareInput, options)}
+          disabled={isComparing || !compareInput.trim()}
+        >
+          {isComparing ? "Comparing..." : "Compare"}
+        </button>
+        <label className="search-option">
+          <input
+            type="checkbox"
+            checked={onlyDifferences}
+            onChange={(event) => onOnlyDifferencesChange(event.target.checked)}
+            disabled={!counts}
+          />
+          Only differences
+        </label>
+      </div>
+      {counts && (
+        <div className="compare-summary" role="status">
+          {totalDifferences === 0 ? (
+            <span>No differences found.</span>
+          ) : (
+            <>
+              <span className="diff-badge diff-badge-added">{counts.added} added</span>
+              <span className="diff-badge diff-badge-removed">{counts.removed} removed</span>
+              <span className="diff-badge diff-badge-type-changed">{counts["type-changed"]} type changed</span>
+              <span className="diff-badge diff-badge-value-changed">{counts["value-changed"]} value changed</span>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ComparePanel;
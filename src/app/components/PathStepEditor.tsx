@@ -0,0 +1,98 @@
+import type { JSONValue, PathStep, PredicateOperator, SelectionPath } from "../types";
+import { isPredicateStep, suggestPredicate } from "../utils/json";
+
+type StepMode = "index" | "last" | "first-match" | "last-match";
+
+interface PathStepEditorProps {
+  fieldName: string;
+  path: SelectionPath;
+  originalPath: SelectionPath;
+  getSampleElement: (stepIndex: number, elementIndex: number) => JSONValue | undefined;
+  onChange: (path: SelectionPath) => void;
+}
+
+function stepMode(step: PathStep): StepMode {
+  if (isPredicateStep(step)) return step.match === "first" ? "first-match" : "last-match";
+  return typeof step === "number" && step < 0 ? "last" : "index";
+}
+
+function PathStepEditor({ fieldName, path, originalPath, getSampleElement, onChange }: PathStepEditorProps) {
+  const replaceStep = (stepIndex: number, step: PathStep) => {
+    onChange(path.map((current, index) => (index === stepIndex ? step : current)));
+  };
+
+  const handleModeChange = (stepIndex: number, mode: StepMode) => {
+    const step = path[stepIndex];
+    const original = originalPath[stepIndex];
+    const originalIndex = typeof original === "number" && original >= 0 ? original : 0;
+    if (mode === "index") {
+      replaceStep(stepIndex, originalIndex);
+    } else if (mode === "last") {
+      replaceStep(stepIndex, -1);
+    } else {
+      const predicate = isPredicateStep(step)
+        ? step
+        : suggestPredicate(getSampleElement(stepIndex, originalIndex), path[stepIndex + 1]);
+      replaceStep(stepIndex, { ...predicate, match: mode === "first-match" ? "first" : "last" });
+    }
+  };
+
+  return (
+    <>
+      {path.map((step, stepIndex) => {
+        const original = originalPath[stepIndex];
+        if (!isPredicateStep(step) && typeof step !== "number") return null;
+        const label = `step ${stepIndex + 1} of ${fieldName}`;
+        return (
+          <span key={stepIndex} className="pill-step">
+            <select
+              className="pill-select"
+              value={stepMode(step)}
+              onChange={(event) => handleModeChange(stepIndex, event.target.value as StepMode)}
+              aria-label={`Array element for ${label}`}
+            >
+              <option value="index">[{typeof original === "number" && original >= 0 ? original : 0}]</option>
+              <option value="last">last</option>
+              <option value="first-match">first where</option>
+              <option value="last-match">last where</option>
+            </select>
+            {isPredicateStep(step) && (
+              <>
+                <input
+                  type="text"
+                  className="pill-input"
+                  value={step.field}
+                  onChange={(event) => replaceStep(stepIndex, { ...step, field: event.target.value })}
+                  placeholder="field"
+                  aria-label={`Sibling field for ${label}`}
+                />
+                <select
+                  className="pill-select"
+                  value={step.operator}
+                  onChange={(event) =>
+                    replaceStep(stepIndex, { ...step, operator: event.target.value as PredicateOperator })
+                  }
+                  aria-label={`Match operator for ${label}`}
+                >
+                  <option value="equals">equals</option>
+                  <option value="contains">contains</option>
+                </select>
+                <input
+                  type="text"
+                  className="pill-input"
+                  value={step.value}
+                  onChange={(event) => replaceStep(stepIndex, { ...step, value: event.target.value })}
+                  placeholder="value"
+                  title="JSON literal or plain text; contains matches text inside string values"
+                  aria-label={`Match value for ${label}`}
+                />
+              </>
+            )}
+          </span>
+        );
+      })}
+    </>
+  );
+}
+
+export default PathStepEditor;
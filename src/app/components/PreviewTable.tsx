@@ -0,0 +1,65 @@
+import type { PreviewTable as PreviewTableData } from "../utils/preview";
+import { formatPreviewCell } from "../utils/preview";
+
+const MAX_PREVIEW_ROWS_SHOWN = 100;
+
+interface PreviewTableProps {
+  table: PreviewTableData;
+  recordCount: number;
+  totalRecords: number;
+  onDownloadCsv: () => void;
+  onDownloadJson: () => void;
+}
+
+function PreviewTable({ table, recordCount, totalRecords, onDownloadCsv, onDownloadJson }: PreviewTableProps) {
+  const shownRows = table.rows.slice(0, MAX_PREVIEW_ROWS_SHOWN);
+
+  return (
+    <div className="preview-card">
+      <div className="code-toolbar">
+        <h2>Extraction Preview</h2>
+        <span className="preview-meta">
+          {table.rows.length.toLocaleString()} row{table.rows.length === 1 ? "" : "s"} from{" "}
+          {recordCount.toLocaleString()}
+          {totalRecords > recordCount ? ` of ${totalRecords.toLocaleString()}` : ""} record
+          {totalRecords === 1 ? "" : "s"}
+        </span>
+        <button type="button" className="copy-btn" onClick={onDownloadCsv}>
+          Download CSV
+        </button>
+        <button type="button" className="copy-btn" onClick={onDownloadJson}>
+          Download JSON
+        </button>
+      </div>
+      <div className="preview-scroll">
+        <table className="preview-table">
+          <thead>
+            <tr>
+              {table.columns.map((column) => (
+                <th key={column}>{column}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {shownRows.map((row, rowIndex) => (
+              <tr key={rowIndex}>
+                {row.map((cell, cellIndex) => (
+                  <td key={table.columns[cellIndex]} className={cell === null ? "preview-null" : undefined}>
+                    {cell === null ? "null" : formatPreviewCell(cell)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {table.rows.length > MAX_PREVIEW_ROWS_SHOWN && (
+        <p className="preview-more">
+          Showing the first {MAX_PREVIEW_ROWS_SHOWN} rows; downloads include all {table.rows.length.toLocaleString()}.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default PreviewTable;
@@ -0,0 +1,112 @@
+import { FormEvent, useState } from "react";
+import type { TableSource } from "../types";
+
+interface TablePanelProps {
+  table: TableSource;
+  jsonColumn: string;
+  rowIndex: number | null;
+  isLoading: boolean;
+  onColumnChange: (column: string) => void;
+  onSelectRow: (index: number) => void;
+  onMergeRows: () => void;
+  onClose: () => void;
+}
+
+function TablePanel({
+  table,
+  jsonColumn,
+  rowIndex,
+  isLoading,
+  onColumnChange,
+  onSelectRow,
+  onMergeRows,
+  onClose,
+}: TablePanelProps) {
+  const [rowValue, setRowValue] = useState("");
+  const rowCount = table.rows.length;
+
+  const handleGoToRow = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const row = Number.parseInt(rowValue, 10);
+    if (Number.isNaN(row)) return;
+    onSelectRow(Math.min(Math.max(row, 1), rowCount) - 1);
+    setRowValue("");
+  };
+
+  return (
+    <div className="table-panel">
+      <div className="compare-header">
+        <h3>
+          {table.fileName} · {rowCount.toLocaleString()} row{rowCount === 1 ? "" : "s"},{" "}
+          {table.columns.length} column{table.columns.length === 1 ? "" : "s"}
+        </h3>
+        <button type="button" className="copy-btn" onClick={onClose}>
+          Close Table
+        </button>
+      </div>
+      <div className="search-row">
+        <label className="table-column-label" htmlFor="table-column-select">
+          JSON column
+        </label>
+        <select
+          id="table-column-select"
+          className="mode-select"
+          value={jsonColumn}
+          onChange={(event) => onColumnChange(event.target.value)}
+          disabled={isLoading}
+        >
+          {!table.columns.includes(jsonColumn) && <option value={jsonColumn}>{jsonColumn}</option>}
+          {table.columns.map((column) => (
+            <option key={column} value={column}>
+              {column}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          className="button button-secondary"
+          onClick={() => onSelectRow((rowIndex ?? 0) - 1)}
+          disabled={isLoading || rowIndex === null || rowIndex === 0}
+        >
+          Previous Row
+        </button>
+        <span className="search-status">
+          {rowIndex === null ? "All rows merged" : `Row ${rowIndex + 1} of ${rowCount.toLocaleString()}`}
+        </span>
+        <button
+          type="button"
+          className="button button-secondary"
+          onClick={() => onSelectRow(rowIndex === null ? 0 : rowIndex + 1)}
+          disabled={isLoading || rowCount === 0 || (rowIndex !== null && rowIndex >= rowCount - 1)}
+        >
+          Next Row
+        </button>
+        <form className="tree-jump" onSubmit={handleGoToRow}>
+          <input
+            type="number"
+            min={1}
+            max={rowCount}
+            value={rowValue}
+            onChange={(event) => setRowValue(event.target.value)}
+            placeholder="Row"
+            aria-label="Go to row"
+            disabled={isLoading || rowCount === 0}
+          />
+          <button type="submit" className="copy-btn" disabled={isLoading || rowCount === 0}>
+            Go
+          </button>
+        </form>
+        <button
+          type="button"
+          className="button"
+          onClick={onMergeRows}
+          disabled={isLoading || rowCount === 0 || rowIndex === null}
+        >
+          Merge All Rows
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default TablePanel;
@@ -1,19 +1,32 @@
-import { memo, useMemo, useCallback, KeyboardEvent } from "react";
-import type { JSONValue, JSONObject, JSONArray, Path } from "../types";
-import { getJsonType, formatValue } from "../utils/json";
+import { memo, useMemo } from "react";
+import type { AggregateKind, DiffEntry, JSONValue, Path, PathStats } from "../types";
+import { getJsonType, formatValue, parseEmbeddedJson } from "../utils/json";
+import { AGGREGATE_OPTIONS } from "../utils/aggregate";
 
 interface TreeNodeProps {
   value: JSONValue;
   label?: string | number;
   path: Path;
-  level: number;
-  expandedPaths: Set<string>;
-  searchTerm: string;
-  selectedValueKeys: Set<string>;
-  maxChildrenToShow: number;
+  isExpanded: boolean;
+  isTabStop: boolean;
+  position: number;
+  setSize: number;
+  isSearchMatch: boolean;
+  isActiveSearchMatch: boolean;
+  isSelectedValue: boolean;
+  isWildcardValue: boolean;
+  isWildcard: boolean;
+  isDecoded: boolean;
+  stats?: PathStats;
+  recordCount: number;
+  dataRevision: number;
+  diff?: DiffEntry;
   onToggleExpand: (pathKey: string) => void;
-  onSelectValue: (path: Path) => void;
+  onToggleWildcard: (pathKey: string) => void;
+  onToggleDecode: (pathKey: string) => void;
+  onSelectValue: (path: Path, value: JSONValue) => void;
   onSelectSubtree: (path: Path, value: JSONValue) => void;
+  onAggregate: (path: Path, value: JSONValue, kind: AggregateKind) => void;
   onCopyPath: (path: Path) => Promise<void>;
   onCopyPython: (path: Path) => Promise<void>;
   onCopyJson: (value: JSONValue) => Promise<void>;
@@ -23,14 +36,25 @@ function TreeNode({
   value,
   label,
   path,
-  level,
-  expandedPaths,
-  searchTerm,
-  selectedValueKeys,
-  maxChildrenToShow,
+  isExpanded,
+  isTabStop,
+  position,
+  setSize,
+  isSearchMatch,
+  isActiveSearchMatch,
+  isSelectedValue,
+  isWildcardValue,
+  isWildcard,
+  isDecoded,
+  stats,
+  recordCount,
+  diff,
   onToggleExpand,
+  onToggleWildcard,
+  onToggleDecode,
   onSelectValue,
   onSelectSubtree,
+  onAggregate,
   onCopyPath,
   onCopyPython,
   onCopyJson,
@@ -38,282 +62,245 @@ function TreeNode({
   const type = getJsonType(value);
   const isExpandable = type === "object" || type === "array";
   const pathKey = JSON.stringify(path);
-  const isExpanded = isExpandable ? expandedPaths.has(pathKey) : false;
-  const isSelectedValue = selectedValueKeys.has(pathKey);
   const formattedValue = formatValue(value, type);
-
-  const search = searchTerm.trim().toLowerCase();
-  const textForSearch = `${label !== undefined ? `"${label}": ` : ""}${formattedValue}`.toLowerCase();
-  const matchesSearch = search.length > 0 && textForSearch.includes(search);
+  const isEncodedJson = useMemo(
+    () => path.length > 0 && typeof value === "string" && parseEmbeddedJson(value) !== undefined,
+    [path.length, value]
+  );
 
   const nodeContentClasses = ["node-content"];
   if (isSelectedValue) nodeContentClasses.push("selected");
-  if (matchesSearch) nodeContentClasses.push("highlight");
+  if (isWildcardValue) nodeContentClasses.push("selected-wildcard");
+  if (isSearchMatch) nodeContentClasses.push("highlight");
+  if (isActiveSearchMatch) nodeContentClasses.push("search-active");
+  if (diff) nodeContentClasses.push(`diff-${diff.status}`);
 
   const nodeValueClasses = ["node-value"];
   if (isSelectedValue) nodeValueClasses.push("selected");
+  if (isWildcardValue) nodeValueClasses.push("selected-wildcard");
 
-  const childrenToRender = useMemo(() => {
-    if (!isExpandable || !isExpanded) return null;
-
-    if (type === "object") {
-      const entries = Object.entries(value as JSONObject);
-      if (entries.length > maxChildrenToShow) {
-        return { entries: entries.slice(0, maxChildrenToShow), total: entries.length, isTruncated: true };
-      }
-      return { entries, total: entries.length, isTruncated: false };
-    }
-
-    if (type === "array") {
-      const arr = value as JSONArray;
-      if (arr.length > maxChildrenToShow) {
-        return { items: arr.slice(0, maxChildrenToShow), total: arr.length, isTruncated: true };
-      }
-      return { items: arr, total: arr.length, isTruncated: false };
-    }
+  const isPartial = stats !== undefined && (stats.count < recordCount || stats.types.includes("null"));
 
-    return null;
-  }, [value, type, isExpanded, isExpandable, maxChildrenToShow]);
-
-  const handleKeyDown = useCallback(
-    (event: KeyboardEvent<HTMLDivElement>) => {
-      switch (event.key) {
-        case "Enter":
-        case " ":
-          event.preventDefault();
-          if (isExpandable) {
-            onToggleExpand(pathKey);
-          } else {
-            onSelectValue(path);
-          }
-          break;
-        case "ArrowRight":
-          if (isExpandable && !isExpanded) {
-            event.preventDefault();
-            onToggleExpand(pathKey);
-          }
-          break;
-        case "ArrowLeft":
-          if (isExpandable && isExpanded) {
-            event.preventDefault();
+  return (
+    <div
+      className={nodeContentClasses.join(" ")}
+      tabIndex={isTabStop ? 0 : -1}
+      role="treeitem"
+      aria-level={path.length + 1}
+      aria-posinset={position}
+      aria-setsize={setSize}
+      aria-expanded={isExpandable ? isExpanded : undefined}
+      aria-selected={isSelectedValue || isWildcardValue}
+      aria-keyshortcuts={isExpandable ? "Shift+A Shift+C Shift+P" : "Shift+F Shift+C Shift+P"}
+    >
+      {isExpandable ? (
+        <button
+          type="button"
+          className={`expand-btn ${isExpanded ? "expanded" : ""}`}
+          onClick={(event) => {
+            event.stopPropagation();
             onToggleExpand(pathKey);
-          }
-          break;
-        case "ArrowDown": {
-          event.preventDefault();
-          const next = (event.currentTarget as HTMLElement)
-            .closest(".tree-node")
-            ?.querySelector(".children .tree-node .node-content") as HTMLElement | null;
-          if (next) {
-            next.focus();
-          } else {
-            const sibling = (event.currentTarget as HTMLElement)
-              .closest(".tree-node")
-              ?.nextElementSibling
-              ?.querySelector(".node-content") as HTMLElement | null;
-            sibling?.focus();
-          }
-          break;
-        }
-        case "ArrowUp": {
-          event.preventDefault();
-          const prev = (event.currentTarget as HTMLElement)
-            .closest(".tree-node")
-            ?.previousElementSibling
-            ?.querySelector(".node-content") as HTMLElement | null;
-          prev?.focus();
-          break;
-        }
-      }
-    },
-    [isExpandable, isExpanded, pathKey, path, onToggleExpand, onSelectValue]
-  );
+          }}
+          tabIndex={-1}
+          aria-label={isExpanded ? "Collapse" : "Expand"}
+        >
+          ▸
+        </button>
+      ) : (
+        <span className="expand-spacer" />
+      )}
 
-  return (
-    <div className="tree-node" style={{ marginLeft: level === 0 ? 0 : 12 }}>
-      <div
-        className={nodeContentClasses.join(" ")}
-        tabIndex={0}
-        role="treeitem"
-        aria-expanded={isExpandable ? isExpanded : undefined}
-        onKeyDown={handleKeyDown}
-      >
-        {isExpandable ? (
+      {label !== undefined && (
+        <span className="node-key">&quot;{label}&quot;:</span>
+      )}
+
+      <div className="value-wrapper">
+        <span className={nodeValueClasses.join(" ")}>{formattedValue}</span>
+        {diff?.status === "value-changed" && diff.compared !== undefined && (
+          <span className="diff-compared" title="Value in the compared document">
+            → {formatValue(diff.compared, getJsonType(diff.compared))}
+          </span>
+        )}
+        {isWildcard && (
+          <span className="wildcard-badge" title="Fields selected below apply to every element">
+            [*]
+          </span>
+        )}
+        {isDecoded && (
+          <span className="decoded-badge" title="Decoded from a JSON-encoded string">
+            JSON
+          </span>
+        )}
+        {!isExpandable && (
           <button
             type="button"
-            className={`expand-btn ${isExpanded ? "expanded" : ""}`}
+            className="select-btn"
             onClick={(event) => {
               event.stopPropagation();
-              onToggleExpand(pathKey);
+              onSelectValue(path, value);
             }}
             tabIndex={-1}
-            aria-label={isExpanded ? "Collapse" : "Expand"}
+            title="Shift+F"
           >
-            ▸
+            Add Field
           </button>
-        ) : (
-          <span className="expand-spacer" />
         )}
+      </div>
 
-        {label !== undefined && (
-          <span className="node-key">&quot;{label}&quot;:</span>
-        )}
+      <span className={`node-type type-${type}`}>{isEncodedJson ? "json string" : type}</span>
 
-        <div className="value-wrapper">
-          <span className={nodeValueClasses.join(" ")}>{formattedValue}</span>
-          {!isExpandable && (
-            <button
-              type="button"
-              className="select-btn"
-              onClick={(event) => {
-                event.stopPropagation();
-                onSelectValue(path);
-              }}
-              tabIndex={-1}
-            >
-              Add Field
-            </button>
-          )}
-        </div>
+      {diff && diff.status !== "changed" && (
+        <span
+          className={`diff-badge diff-badge-${diff.status}`}
+          title={
+            diff.status === "type-changed" && diff.compared !== undefined
+              ? `Compared document has ${formatValue(diff.compared, getJsonType(diff.compared))}`
+              : undefined
+          }
+        >
+          {diff.status === "type-changed" && diff.compared !== undefined
+            ? `${type} → ${getJsonType(diff.compared)}`
+            : diff.status.replace("-", " ")}
+        </span>
+      )}
 
-        <span className={`node-type type-${type}`}>{type}</span>
+      {stats && (
+        <span
+          className={`presence-badge${isPartial ? " partial" : ""}`}
+          title={`Present in ${stats.count} of ${recordCount} records; observed types: ${stats.types.join(", ")}`}
+        >
+          {stats.count}/{recordCount}
+          {stats.types.length > 1 && ` · ${stats.types.join(" | ")}`}
+        </span>
+      )}
 
-        <div className="node-actions">
-          {isExpandable && (
-            <button
-              type="button"
-              className="copy-btn"
-              onClick={(event) => {
-                event.stopPropagation();
-                onSelectSubtree(path, value);
-              }}
-              tabIndex={-1}
-            >
-              Add All Fields
-            </button>
-          )}
+      <div className="node-actions">
+        {type === "array" && (
+          <button
+            type="button"
+            className="copy-btn"
+            onClick={(event) => {
+              event.stopPropagation();
+              onToggleWildcard(pathKey);
+            }}
+            tabIndex={-1}
+            aria-pressed={isWildcard}
+          >
+            {isWildcard ? "Pin Index" : "Each Item [*]"}
+          </button>
+        )}
+        {(isEncodedJson || isDecoded) && (
+          <button
+            type="button"
+            className="copy-btn"
+            onClick={(event) => {
+              event.stopPropagation();
+              onToggleDecode(pathKey);
+            }}
+            tabIndex={-1}
+            aria-pressed={isDecoded}
+          >
+            {isDecoded ? "Show as String" : "Decode JSON"}
+          </button>
+        )}
+        {isExpandable && (
           <button
             type="button"
             className="copy-btn"
             onClick={(event) => {
               event.stopPropagation();
-              void onCopyPath(path);
+              onSelectSubtree(path, value);
             }}
             tabIndex={-1}
+            title="Shift+A"
           >
-            Copy Path
+            Add All Fields
           </button>
+        )}
+        {type === "array" && (
+          <select
+            className="copy-btn aggregate-select"
+            value=""
+            onClick={(event) => event.stopPropagation()}
+            onChange={(event) => {
+              if (event.target.value) onAggregate(path, value, event.target.value as AggregateKind);
+            }}
+            tabIndex={-1}
+            aria-label="Add an aggregate field over this array"
+          >
+            <option value="">Aggregate…</option>
+            {AGGREGATE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        )}
+        <button
+          type="button"
+          className="copy-btn"
+          onClick={(event) => {
+            event.stopPropagation();
+            void onCopyPath(path);
+          }}
+          tabIndex={-1}
+          title="Shift+C"
+        >
+          Copy Path
+        </button>
+        <button
+          type="button"
+          className="copy-btn"
+          onClick={(event) => {
+            event.stopPropagation();
+            void onCopyPython(path);
+          }}
+          tabIndex={-1}
+          title="Shift+P"
+        >
+          Copy Python
+        </button>
+        {isExpandable && (
           <button
             type="button"
             className="copy-btn"
             onClick={(event) => {
               event.stopPropagation();
-              void onCopyPython(path);
+              void onCopyJson(value);
             }}
             tabIndex={-1}
           >
-            Copy Python
+            Copy JSON
           </button>
-          {isExpandable && (
-            <button
-              type="button"
-              className="copy-btn"
-              onClick={(event) => {
-                event.stopPropagation();
-                void onCopyJson(value);
-              }}
-              tabIndex={-1}
-            >
-              Copy JSON
-            </button>
-          )}
-        </div>
+        )}
       </div>
-
-      {isExpandable && isExpanded && childrenToRender && (
-        <div className="children" role="group">
-          {type === "object" && childrenToRender.entries && (
-            <>
-              {childrenToRender.entries.map(([childKey, childValue]) => (
-                <MemoTreeNode
-                  key={`${pathKey}.${childKey}`}
-                  value={childValue}
-                  label={childKey}
-                  path={[...path, childKey]}
-                  level={level + 1}
-                  expandedPaths={expandedPaths}
-                  searchTerm={searchTerm}
-                  selectedValueKeys={selectedValueKeys}
-                  maxChildrenToShow={maxChildrenToShow}
-                  onToggleExpand={onToggleExpand}
-                  onSelectValue={onSelectValue}
-                  onSelectSubtree={onSelectSubtree}
-                  onCopyPath={onCopyPath}
-                  onCopyPython={onCopyPython}
-                  onCopyJson={onCopyJson}
-                />
-              ))}
-              {childrenToRender.isTruncated && (
-                <div className="truncated-message" style={{ padding: "8px 12px", color: "#607d8b", fontStyle: "italic", fontSize: "0.85rem" }}>
-                  ... and {childrenToRender.total - maxChildrenToShow} more keys (showing first {maxChildrenToShow})
-                </div>
-              )}
-            </>
-          )}
-          {type === "array" && childrenToRender.items && (
-            <>
-              {childrenToRender.items.map((item, index) => (
-                <MemoTreeNode
-                  key={`${pathKey}.${index}`}
-                  value={item}
-                  label={index}
-                  path={[...path, index]}
-                  level={level + 1}
-                  expandedPaths={expandedPaths}
-                  searchTerm={searchTerm}
-                  selectedValueKeys={selectedValueKeys}
-                  maxChildrenToShow={maxChildrenToShow}
-                  onToggleExpand={onToggleExpand}
-                  onSelectValue={onSelectValue}
-                  onSelectSubtree={onSelectSubtree}
-                  onCopyPath={onCopyPath}
-                  onCopyPython={onCopyPython}
-                  onCopyJson={onCopyJson}
-                />
-              ))}
-              {childrenToRender.isTruncated && (
-                <div className="truncated-message" style={{ padding: "8px 12px", color: "#607d8b", fontStyle: "italic", fontSize: "0.85rem" }}>
-                  ... and {childrenToRender.total - maxChildrenToShow} more items (showing first {maxChildrenToShow})
-                </div>
-              )}
-            </>
-          )}
-        </div>
-      )}
     </div>
   );
 }
 
-function areSetsEqual(a: Set<string>, b: Set<string>): boolean {
-  if (a.size !== b.size) return false;
-  for (const item of a) {
-    if (!b.has(item)) return false;
-  }
-  return true;
-}
-
 const MemoTreeNode = memo(TreeNode, (prev, next) => {
   if (prev.value !== next.value) return false;
   if (prev.label !== next.label) return false;
-  if (prev.level !== next.level) return false;
-  if (prev.searchTerm !== next.searchTerm) return false;
-  if (prev.maxChildrenToShow !== next.maxChildrenToShow) return false;
+  if (prev.isExpanded !== next.isExpanded) return false;
+  if (prev.isTabStop !== next.isTabStop) return false;
+  if (prev.position !== next.position || prev.setSize !== next.setSize) return false;
+  if (prev.isSearchMatch !== next.isSearchMatch) return false;
+  if (prev.isActiveSearchMatch !== next.isActiveSearchMatch) return false;
   if (prev.path !== next.path && JSON.stringify(prev.path) !== JSON.stringify(next.path)) return false;
-  if (!areSetsEqual(prev.expandedPaths, next.expandedPaths)) return false;
-  if (!areSetsEqual(prev.selectedValueKeys, next.selectedValueKeys)) return false;
+  if (prev.isSelectedValue !== next.isSelectedValue) return false;
+  if (prev.isWildcardValue !== next.isWildcardValue) return false;
+  if (prev.isWildcard !== next.isWildcard) return false;
+  if (prev.isDecoded !== next.isDecoded) return false;
+  if (prev.stats !== next.stats) return false;
+  if (prev.recordCount !== next.recordCount) return false;
+  if (prev.dataRevision !== next.dataRevision) return false;
+  if (prev.diff !== next.diff) return false;
   if (prev.onToggleExpand !== next.onToggleExpand) return false;
+  if (prev.onToggleWildcard !== next.onToggleWildcard) return false;
+  if (prev.onToggleDecode !== next.onToggleDecode) return false;
   if (prev.onSelectValue !== next.onSelectValue) return false;
   if (prev.onSelectSubtree !== next.onSelectSubtree) return false;
+  if (prev.onAggregate !== next.onAggregate) return false;
   if (prev.onCopyPath !== next.onCopyPath) return false;
   if (prev.onCopyPython !== next.onCopyPython) return false;
   if (prev.onCopyJson !== next.onCopyJson) return false;
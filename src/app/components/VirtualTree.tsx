@@ -0,0 +1,416 @@
+import {
+  memo,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  CSSProperties,
+  FocusEvent,
+  FormEvent,
+  KeyboardEvent,
+} from "react";
+import type { AggregateKind, DiffEntry, JSONValue, Path, PathStats, TreeRow } from "../types";
+import MemoTreeNode from "./TreeNode";
+
+const TREE_ROW_HEIGHT = 40;
+const TREE_VIEWPORT_HEIGHT = 600;
+const OVERSCAN_ROWS = 12;
+const TYPE_AHEAD_RESET_MS = 500;
+
+type NodeRow = Extract<TreeRow, { kind: "node" }>;
+
+function isExpandableValue(value: JSONValue): boolean {
+  return value !== null && typeof value === "object";
+}
+
+function rowLabel(row: NodeRow): string {
+  return row.label === undefined ? "" : String(row.label).toLowerCase();
+}
+
+export interface ScrollTarget {
+  pathKey: string;
+  id: number;
+  focus: boolean;
+}
+
+interface VirtualTreeProps {
+  rows: TreeRow[];
+  pageSize: number;
+  expandedPaths: Set<string>;
+  searchMatchKeys: Set<string>;
+  activeSearchKey: string | null;
+  selectedValueKeys: Set<string>;
+  wildcardValueKeys: Set<string>;
+  wildcardPaths: Set<string>;
+  decodedPaths: Set<string>;
+  pathStats: Map<string, PathStats> | null;
+  recordCount: number;
+  dataRevision: number;
+  diffEntries: Map<string, DiffEntry> | null;
+  scrollTarget: ScrollTarget | null;
+  onToggleExpand: (pathKey: string) => void;
+  onToggleWildcard: (pathKey: string) => void;
+  onToggleDecode: (pathKey: string) => void;
+  onSelectValue: (path: Path, value: JSONValue) => void;
+  onSelectSubtree: (path: Path, value: JSONValue) => void;
+  onAggregate: (path: Path, value: JSONValue, kind: AggregateKind) => void;
+  onCopyPath: (path: Path) => Promise<void>;
+  onCopyPython: (path: Path) => Promise<void>;
+  onCopyJson: (value: JSONValue) => Promise<void>;
+  onShowMore: (pathKey: string, limit: number) => void;
+  onJumpToIndex: (path: Path, index: number) => void;
+}
+
+interface MoreRowProps {
+  row: Extract<TreeRow, { kind: "more" }>;
+  pageSize: number;
+  onShowMore: (pathKey: string, limit: number) => void;
+  onJumpToIndex: (path: Path, index: number) => void;
+}
+
+function MoreRow({ row, pageSize, onShowMore, onJumpToIndex }: MoreRowProps) {
+  const [jumpValue, setJumpValue] = useState("");
+  const pathKey = JSON.stringify(row.path);
+  const remaining = row.total - row.shown;
+  const nextPage = Math.min(pageSize, remaining);
+
+  const handleJump = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const index = Number.parseInt(jumpValue, 10);
+    if (Number.isNaN(index)) return;
+    onJumpToIndex(row.path, Math.min(Math.max(index, 0), row.total - 1));
+  };
+
+  return (
+    <div className="tree-more">
+      <span className="tree-more-label">
+        Showing {row.shown.toLocaleString()} of {row.total.toLocaleString()} {row.isArray ? "items" : "keys"}
+      </span>
+      <button type="button" className="copy-btn" onClick={() => onShowMore(pathKey, row.shown + nextPage)}>
+        Show next {nextPage.toLocaleString()}
+      </button>
+      <button type="button" className="copy-btn" onClick={() => onShowMore(pathKey, row.total)}>
+        Show all
+      </button>
+      {row.isArray && (
+        <form className="tree-jump" onSubmit={handleJump}>
+          <input
+            type="number"
+            min={0}
+            max={row.total - 1}
+            value={jumpValue}
+            onChange={(event) => setJumpValue(event.target.value)}
+            placeholder="Index"
+            aria-label="Jump to index"
+          />
+          <button type="submit" className="copy-btn">
+            Jump
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
+
+function VirtualTree({
+  rows,
+  pageSize,
+  expandedPaths,
+  searchMatchKeys,
+  activeSearchKey,
+  selectedValueKeys,
+  wildcardValueKeys,
+  wildcardPaths,
+  decodedPaths,
+  pathStats,
+  recordCount,
+  dataRevision,
+  diffEntries,
+  scrollTarget,
+  onToggleExpand,
+  onToggleWildcard,
+  onToggleDecode,
+  onSelectValue,
+  onSelectSubtree,
+  onAggregate,
+  onCopyPath,
+  onCopyPython,
+  onCopyJson,
+  onShowMore,
+  onJumpToIndex,
+}: VirtualTreeProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pendingFocusRef = useRef<number | null>(null);
+  const handledTargetRef = useRef<number | null>(null);
+  const typeAheadRef = useRef({ text: "", time: 0 });
+  const [scrollTop, setScrollTop] = useState(0);
+  const [activeKey, setActiveKey] = useState<string | null>(null);
+
+  const viewportHeight = Math.min(TREE_VIEWPORT_HEIGHT, rows.length * TREE_ROW_HEIGHT);
+  const startIndex = Math.max(0, Math.floor(scrollTop / TREE_ROW_HEIGHT) - OVERSCAN_ROWS);
+  const endIndex = Math.min(
+    rows.length,
+    Math.ceil((scrollTop + viewportHeight) / TREE_ROW_HEIGHT) + OVERSCAN_ROWS
+  );
+
+  const tryFocusRow = useCallback((index: number): boolean => {
+    const element = containerRef.current?.querySelector<HTMLElement>(
+      `[data-row-index="${index}"] [role="treeitem"]`
+    );
+    if (!element) return false;
+    element.focus({ preventScroll: true });
+    return true;
+  }, []);
+
+  const focusRow = useCallback(
+    (index: number, focus = true) => {
+      const container = containerRef.current;
+      if (!container) return;
+      const rowTop = index * TREE_ROW_HEIGHT;
+      if (rowTop < container.scrollTop) {
+        container.scrollTop = rowTop;
+      } else if (rowTop + TREE_ROW_HEIGHT > container.scrollTop + container.clientHeight) {
+        container.scrollTop = rowTop + TREE_ROW_HEIGHT - container.clientHeight;
+      }
+      if (!focus) {
+        setScrollTop(container.scrollTop);
+        return;
+      }
+      if (!tryFocusRow(index)) {
+        pendingFocusRef.current = index;
+        setScrollTop(container.scrollTop);
+      }
+    },
+    [tryFocusRow]
+  );
+
+  useEffect(() => {
+    if (pendingFocusRef.current !== null && tryFocusRow(pendingFocusRef.current)) {
+      pendingFocusRef.current = null;
+    }
+  });
+
+  useEffect(() => {
+    if (!scrollTarget || handledTargetRef.current === scrollTarget.id) return;
+    const index = rows.findIndex((row) => row.kind === "node" && row.key === scrollTarget.pathKey);
+    if (index === -1) return;
+    handledTargetRef.current = scrollTarget.id;
+    focusRow(index, scrollTarget.focus);
+  }, [scrollTarget, rows, focusRow]);
+
+  const handleFocus = useCallback((event: FocusEvent<HTMLDivElement>) => {
+    const target = event.target as HTMLElement;
+    if (target.getAttribute("role") !== "treeitem") return;
+    const key = target.closest<HTMLElement>("[data-row-key]")?.dataset.rowKey;
+    if (key !== undefined) setActiveKey(key);
+  }, []);
+
+  const findNodeIndex = useCallback(
+    (from: number, step: 1 | -1, predicate: (row: NodeRow) => boolean = () => true): number => {
+      for (let index = from; index >= 0 && index < rows.length; index += step) {
+        const row = rows[index];
+        if (row.kind === "node" && predicate(row)) return index;
+      }
+      return -1;
+    },
+    [rows]
+  );
+
+  const findTypeAheadMatch = useCallback(
+    (currentIndex: number, text: string): number => {
+      const matches = (row: NodeRow) => rowLabel(row).startsWith(text);
+      const start = text.length > 1 ? currentIndex : currentIndex + 1;
+      const forward = findNodeIndex(start, 1, matches);
+      return forward !== -1 ? forward : findNodeIndex(0, 1, matches);
+    },
+    [findNodeIndex]
+  );
+
+  const handleKeyDown = useCallback(
+    (event: KeyboardEvent<HTMLDivElement>) => {
+      const target = event.target as HTMLElement;
+      if (target.getAttribute("role") !== "treeitem" || event.ctrlKey || event.metaKey || event.altKey) return;
+      const rowElement = target.closest<HTMLElement>("[data-row-index]");
+      if (!rowElement) return;
+      const index = Number(rowElement.dataset.rowIndex);
+      const row = rows[index];
+      if (!row || row.kind !== "node") return;
+
+      const isExpandable = isExpandableValue(row.value);
+      const isExpanded = expandedPaths.has(row.key);
+      const moveTo = (nextIndex: number) => {
+        if (nextIndex !== -1) focusRow(nextIndex);
+      };
+
+      const command = event.shiftKey && /^[a-z]$/i.test(event.key) ? `Shift+${event.key.toUpperCase()}` : event.key;
+      let handled = true;
+      switch (command) {
+        case "ArrowDown":
+          moveTo(findNodeIndex(index + 1, 1));
+          break;
+        case "ArrowUp":
+          moveTo(findNodeIndex(index - 1, -1));
+          break;
+        case "Home":
+          moveTo(findNodeIndex(0, 1));
+          break;
+        case "End":
+          moveTo(findNodeIndex(rows.length - 1, -1));
+          break;
+        case "ArrowRight":
+          if (isExpandable && !isExpanded) {
+            onToggleExpand(row.key);
+          } else if (isExpandable) {
+            moveTo(findNodeIndex(index + 1, 1, (candidate) => candidate.level > row.level));
+          }
+          break;
+        case "ArrowLeft":
+          if (isExpandable && isExpanded) {
+            onToggleExpand(row.key);
+          } else {
+            moveTo(findNodeIndex(index - 1, -1, (candidate) => candidate.level < row.level));
+          }
+          break;
+        case "Enter":
+        case " ":
+          if (isExpandable) {
+            onToggleExpand(row.key);
+          } else {
+            onSelectValue(row.path, row.value);
+          }
+          break;
+        case "*": {
+          const parentKey = JSON.stringify(row.path.slice(0, -1));
+          rows.forEach((candidate) => {
+            if (
+              candidate.kind === "node" &&
+              candidate.level === row.level &&
+              isExpandableValue(candidate.value) &&
+              !expandedPaths.has(candidate.key) &&
+              JSON.stringify(candidate.path.slice(0, -1)) === parentKey
+            ) {
+              onToggleExpand(candidate.key);
+            }
+          });
+          break;
+        }
+        case "Shift+F":
+          if (isExpandable) handled = false;
+          else onSelectValue(row.path, row.value);
+          break;
+        case "Shift+A":
+          if (isExpandable) onSelectSubtree(row.path, row.value);
+          else handled = false;
+          break;
+        case "Shift+C":
+          void onCopyPath(row.path);
+          break;
+        case "Shift+P":
+          void onCopyPython(row.path);
+          break;
+        default:
+          handled = false;
+      }
+
+      if (!handled && command.length === 1 && command.trim() !== "") {
+        const now = Date.now();
+        const previous = typeAheadRef.current;
+        const text = now - previous.time > TYPE_AHEAD_RESET_MS ? event.key.toLowerCase() : previous.text + event.key.toLowerCase();
+        typeAheadRef.current = { text, time: now };
+        moveTo(findTypeAheadMatch(index, text));
+        handled = true;
+      }
+      if (handled) event.preventDefault();
+    },
+    [
+      rows,
+      expandedPaths,
+      focusRow,
+      findNodeIndex,
+      findTypeAheadMatch,
+      onToggleExpand,
+      onSelectValue,
+      onSelectSubtree,
+      onCopyPath,
+      onCopyPython,
+    ]
+  );
+
+  const visibleRows = rows.slice(startIndex, endIndex);
+  const activeIndex = useMemo(
+    () => (activeKey === null ? -1 : rows.findIndex((row) => row.kind === "node" && row.key === activeKey)),
+    [rows, activeKey]
+  );
+  const tabStopKey =
+    activeIndex >= startIndex && activeIndex < endIndex
+      ? activeKey
+      : visibleRows.find((row) => row.kind === "node")?.key ?? null;
+
+  return (
+    <div
+      ref={containerRef}
+      className="json-tree virtual-tree"
+      role="tree"
+      aria-multiselectable="true"
+      style={{ height: viewportHeight }}
+      onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}
+      onKeyDown={handleKeyDown}
+      onFocus={handleFocus}
+    >
+      <div className="virtual-tree-spacer" style={{ height: rows.length * TREE_ROW_HEIGHT }}>
+        {visibleRows.map((row, offset) => {
+          const index = startIndex + offset;
+          const style = {
+            top: index * TREE_ROW_HEIGHT,
+            height: TREE_ROW_HEIGHT,
+            "--tree-level": row.level,
+          } as CSSProperties;
+
+          if (row.kind === "more") {
+            return (
+              <div key={row.key} className="tree-row" style={style} data-row-index={index}>
+                <MoreRow row={row} pageSize={pageSize} onShowMore={onShowMore} onJumpToIndex={onJumpToIndex} />
+              </div>
+            );
+          }
+
+          return (
+            <div key={row.key} className="tree-row" style={style} data-row-index={index} data-row-key={row.key}>
+              <MemoTreeNode
+                value={row.value}
+                label={row.label}
+                path={row.path}
+                isExpanded={expandedPaths.has(row.key)}
+                isTabStop={row.key === tabStopKey}
+                position={row.position}
+                setSize={row.setSize}
+                isSearchMatch={searchMatchKeys.has(row.key)}
+                isActiveSearchMatch={row.key === activeSearchKey}
+                isSelectedValue={selectedValueKeys.has(row.key)}
+                isWildcardValue={wildcardValueKeys.has(row.key)}
+                isWildcard={wildcardPaths.has(row.key)}
+                isDecoded={decodedPaths.has(row.key)}
+                stats={pathStats && row.path.length > 0 ? pathStats.get(row.key) : undefined}
+                recordCount={recordCount}
+                dataRevision={dataRevision}
+                diff={diffEntries?.get(row.key)}
+                onToggleExpand={onToggleExpand}
+                onToggleWildcard={onToggleWildcard}
+                onToggleDecode={onToggleDecode}
+                onSelectValue={onSelectValue}
+                onSelectSubtree={onSelectSubtree}
+                onAggregate={onAggregate}
+                onCopyPath={onCopyPath}
+                onCopyPython={onCopyPython}
+                onCopyJson={onCopyJson}
+              />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default memo(VirtualTree);
@@ -1,28 +1,99 @@
 'use client';
 
-import { ChangeEvent, DragEvent, useCallback, useEffect, useMemo, useState } from "react";
-import type { JSONValue, JSONObject, FieldSelection, MessageState, Path } from "./types";
+import { ChangeEvent, DragEvent, KeyboardEvent, UIEvent, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type {
+  JSONValue,
+  JSONObject,
+  DiffOptions,
+  FieldSelection,
+  FieldDtype,
+  MessageState,
+  ParseErrorDetails,
+  Path,
+  SelectionPath,
+  PathStats,
+  InputMode,
+  WildcardMode,
+  CodeTarget,
+  SqlDialect,
+  JqFormat,
+  OutputSettings,
+  PandasCodeSettings,
+  ReturnMode,
+  ParseProgress,
+  QuerySyntax,
+  SearchOptions,
+  SearchScope,
+  TableSource,
+  AggregateKind,
+} from "./types";
 import {
   ROOT_PATH_KEY,
-  ESTIMATE_CAP,
   LARGE_THRESHOLD,
   VERY_LARGE_THRESHOLD,
   DEFAULT_AUTO_EXPAND_DEPTH,
   LARGE_AUTO_EXPAND_DEPTH,
   collectExpandablePaths,
   buildExpandedSetForDepth,
-  countExpandableNodes,
+  flattenTree,
+  expandAncestors,
+  extendChildLimits,
   collectLeafPaths,
   normalizePath,
+  toSelectionPath,
+  applyDecodedPaths,
+  copyContainer,
+  collectDecodedPaths,
+  hasWildcard,
+  hasPredicate,
+  isConcretePath,
+  resolveSelectionPaths,
+  resolveSelectionValues,
   buildSegments,
   createSelectionKey,
+  selectionKeyPath,
+  WILDCARD,
   generateFieldName,
+  inferFieldDtype,
+  getValueAtPath,
   ensureUniqueFieldName,
   pathToDotNotation,
 } from "./utils/json";
-import { generatePythonCode, buildPythonAccessPath } from "./utils/python";
-import MemoTreeNode from "./components/TreeNode";
+import { generatePythonCode, generatePolarsCode, buildPythonAccessPath } from "./utils/python";
+import { generatePySparkCode } from "./utils/pyspark";
+import { generateSqlCode } from "./utils/sql";
+import { generateJqCode } from "./utils/jq";
+import { buildExtractionSpec, parseExtractionSpec, specToSelections } from "./utils/spec";
+import { evaluateQuery } from "./utils/query";
+import { findSearchMatches } from "./utils/search";
+import { diffJson } from "./utils/diff";
+import { buildPreviewTable, previewToCsv, previewToJson, formatPreviewCell } from "./utils/preview";
+import {
+  AGGREGATE_OPTIONS,
+  aggregateDtype,
+  aggregateFieldName,
+  isAggregated,
+  isNumericAggregate,
+  suggestAggregateKey,
+} from "./utils/aggregate";
+import { generatePytestModule, PYTEST_FILE_NAME } from "./utils/pytest";
+import { isTableFileName, parseTable, detectJsonColumn, buildColumnRecords } from "./utils/table";
+import { startParseTask, ParseTaskError } from "./utils/parseWorker";
+import type { ParseTask } from "./utils/parseWorker";
+import {
+  SHARE_HASH_PREFIX,
+  MAX_SHARE_HASH_LENGTH,
+  encodeShareState,
+  decodeShareState,
+} from "./utils/share";
+import type { ShareState } from "./utils/share";
+import VirtualTree from "./components/VirtualTree";
+import type { ScrollTarget } from "./components/VirtualTree";
 import PythonCodePreview from "./components/PythonCodePreview";
+import ComparePanel from "./components/ComparePanel";
+import PreviewTable from "./components/PreviewTable";
+import TablePanel from "./components/TablePanel";
+import PathStepEditor from "./components/PathStepEditor";
 
 const SAMPLE_JSON: JSONObject = {
   templateVariables: {
@@ -75,10 +146,132 @@ const SAMPLE_JSON: JSONObject = {
 
 const SAMPLE_JSON_STRING = JSON.stringify(SAMPLE_JSON, null, 2);
 
+const FIELD_DTYPE_OPTIONS: { value: FieldDtype; label: string }[] = [
+  { value: "object", label: "as-is" },
+  { value: "int", label: "int (Int64)" },
+  { value: "float", label: "float" },
+  { value: "bool", label: "bool" },
+  { value: "string", label: "string" },
+  { value: "category", label: "category" },
+  { value: "datetime", label: "datetime" },
+  { value: "epoch_s", label: "epoch s" },
+  { value: "epoch_ms", label: "epoch ms" },
+];
+
+const CODE_TARGET_LANGUAGE: Record<CodeTarget, string> = {
+  pandas: "Python",
+  polars: "Python",
+  pyspark: "Python",
+  sql: "SQL",
+  jq: "jq",
+};
+
+const DEFAULT_PANDAS_SETTINGS: PandasCodeSettings = {
+  functionName: "transform",
+  strictMode: false,
+  parseErrorColumn: false,
+  dropSourceColumn: false,
+  returnMode: "join",
+};
+
+const DEFAULT_OUTPUT_SETTINGS: OutputSettings = {
+  target: "pandas",
+  wildcardMode: "explode",
+  sqlDialect: "postgres",
+  tableName: "events",
+  jqFormat: "json",
+  literalEvalFallback: false,
+  ...DEFAULT_PANDAS_SETTINGS,
+};
+
+function pickPandasSettings(output: OutputSettings): PandasCodeSettings {
+  return {
+    functionName: output.functionName,
+    strictMode: output.strictMode,
+    parseErrorColumn: output.parseErrorColumn,
+    dropSourceColumn: output.dropSourceColumn,
+    returnMode: output.returnMode,
+  };
+}
+
+const QUERY_PLACEHOLDER: Record<QuerySyntax, string> = {
+  jsonpath: "$.templateVariables.history[*].action",
+  jmespath: "templateVariables.history[?action == 'prompt_submission'].timestamp",
+};
+
+const MAX_SEARCH_MATCHES = 10000;
+const MAX_QUERY_RESULTS_SHOWN = 200;
+const MAX_QUERY_FIELDS = 500;
+const MAX_ERROR_HIGHLIGHT_CHARS = 500000;
+
+function downloadTextFile(fileName: string, text: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = fileName;
+  document.body.appendChild(anchor);
+  anchor.click();
+  document.body.removeChild(anchor);
+  URL.revokeObjectURL(url);
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function describeLoadProgress(progress: ParseProgress | null): string {
+  if (!progress) return "Loading JSON\u2026";
+  switch (progress.phase) {
+    case "reading":
+      return `Reading file\u2026 ${formatBytes(progress.bytesRead)} of ${formatBytes(progress.totalBytes)}`;
+    case "parsing":
+      return `Parsing ${formatBytes(progress.totalBytes)}\u2026`;
+    case "indexing":
+      return `Indexing\u2026 ${progress.nodesIndexed.toLocaleString()} nodes`;
+    case "loading":
+      return `Loading tree\u2026 ${progress.nodesIndexed.toLocaleString()} of ${progress.totalNodes.toLocaleString()} nodes`;
+  }
+}
+
+function progressFraction(progress: ParseProgress): number | undefined {
+  if (progress.phase === "reading") {
+    return progress.totalBytes > 0 ? progress.bytesRead / progress.totalBytes : 0;
+  }
+  if (progress.phase === "loading") {
+    return progress.totalNodes > 0 ? progress.nodesIndexed / progress.totalNodes : 0;
+  }
+  return undefined;
+}
+
+function isRecordsFileName(name: string): boolean {
+  return name.endsWith(".jsonl") || name.endsWith(".ndjson");
+}
+
 export default function Home() {
   const [jsonInput, setJsonInput] = useState<string>(SAMPLE_JSON_STRING);
   const [jsonData, setJsonData] = useState<JSONValue | null>(SAMPLE_JSON);
+  const [dataRevision, setDataRevision] = useState<number>(0);
+  const [inputMode, setInputMode] = useState<InputMode>("document");
+  const [pathStats, setPathStats] = useState<Map<string, PathStats> | null>(null);
+  const [recordCount, setRecordCount] = useState<number>(0);
+  const [sampleRecords, setSampleRecords] = useState<JSONValue[] | null>(null);
+  const [tableSource, setTableSource] = useState<TableSource | null>(null);
+  const [tableRowIndex, setTableRowIndex] = useState<number | null>(null);
   const [searchTerm, setSearchTerm] = useState<string>("");
+  const [searchOptions, setSearchOptions] = useState<SearchOptions>({
+    regex: false,
+    caseSensitive: false,
+    scope: "all",
+  });
+  const [searchMatches, setSearchMatches] = useState<Path[]>([]);
+  const [activeSearchIndex, setActiveSearchIndex] = useState<number>(0);
+  const lastSearchRef = useRef<{ key: string; matches: Path[] }>({ key: "", matches: [] });
+  const [searchError, setSearchError] = useState<string>("");
+  const [queryText, setQueryText] = useState<string>("");
+  const [querySyntax, setQuerySyntax] = useState<QuerySyntax>("jsonpath");
+  const [queryMatches, setQueryMatches] = useState<Path[] | null>(null);
   const [columnName, setColumnName] = useState<string>("templateVariables");
   const [expandedPaths, setExpandedPaths] = useState<Set<string>>(
     new Set([ROOT_PATH_KEY])
@@ -86,15 +279,48 @@ export default function Home() {
   const [selectedFields, setSelectedFields] = useState<Map<string, FieldSelection>>(
     new Map()
   );
+  const [wildcardPaths, setWildcardPaths] = useState<Set<string>>(new Set());
+  const [decodedPaths, setDecodedPaths] = useState<Set<string>>(new Set());
+  const [wildcardMode, setWildcardMode] = useState<WildcardMode>(DEFAULT_OUTPUT_SETTINGS.wildcardMode);
+  const [codeTarget, setCodeTarget] = useState<CodeTarget>(DEFAULT_OUTPUT_SETTINGS.target);
+  const [sqlDialect, setSqlDialect] = useState<SqlDialect>(DEFAULT_OUTPUT_SETTINGS.sqlDialect);
+  const [tableName, setTableName] = useState<string>(DEFAULT_OUTPUT_SETTINGS.tableName);
+  const [jqFormat, setJqFormat] = useState<JqFormat>(DEFAULT_OUTPUT_SETTINGS.jqFormat);
+  const [literalEvalFallback, setLiteralEvalFallback] = useState<boolean>(
+    DEFAULT_OUTPUT_SETTINGS.literalEvalFallback
+  );
+  const [pandasSettings, setPandasSettings] = useState<PandasCodeSettings>(DEFAULT_PANDAS_SETTINGS);
+  const [showPytest, setShowPytest] = useState<boolean>(false);
+  const [lenientParsing, setLenientParsing] = useState<boolean>(false);
+  const [inputError, setInputError] = useState<ParseErrorDetails | null>(null);
+  const [repairNotice, setRepairNotice] = useState<{ repairs: string[]; strictText: string | null } | null>(null);
+  const [loadedFileLabel, setLoadedFileLabel] = useState<string | null>(null);
   const [message, setMessage] = useState<MessageState | null>({
     type: "success",
     text: "Sample JSON loaded.",
   });
   const [codeStatus, setCodeStatus] = useState<string>("");
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState<string>("");
-  const [maxChildrenToShow, setMaxChildrenToShow] = useState<number>(100);
+  const [loadProgress, setLoadProgress] = useState<ParseProgress | null>(null);
+  const [childPageSize, setChildPageSize] = useState<number>(100);
+  const [childLimits, setChildLimits] = useState<Map<string, number>>(new Map());
+  const [scrollTarget, setScrollTarget] = useState<ScrollTarget | null>(null);
   const [isDragging, setIsDragging] = useState<boolean>(false);
+  const [isShareReady, setIsShareReady] = useState<boolean>(false);
+  const [includePayloadInLink, setIncludePayloadInLink] = useState<boolean>(false);
+  const [isCompareOpen, setIsCompareOpen] = useState<boolean>(false);
+  const [comparedDocument, setComparedDocument] = useState<{ data: JSONValue; options: DiffOptions } | null>(null);
+  const [onlyDifferences, setOnlyDifferences] = useState<boolean>(false);
+  const [isComparing, setIsComparing] = useState<boolean>(false);
+  const parseTaskRef = useRef<ParseTask | null>(null);
+  const compareTaskRef = useRef<ParseTask | null>(null);
+  const lenientParsingRef = useRef<boolean>(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const textareaBackdropRef = useRef<HTMLDivElement>(null);
+  const appliedInputRef = useRef<{ raw: string; mode: InputMode }>({
+    raw: SAMPLE_JSON_STRING,
+    mode: "document",
+  });
 
   useEffect(() => {
     if (!message) return;
@@ -102,24 +328,122 @@ export default function Home() {
     return () => window.clearTimeout(timer);
   }, [message]);
 
-  useEffect(() => {
-    const timer = window.setTimeout(() => setDebouncedSearchTerm(searchTerm), 300);
-    return () => window.clearTimeout(timer);
-  }, [searchTerm]);
+  const viewData = useMemo(
+    () => (jsonData === null ? null : applyDecodedPaths(jsonData, decodedPaths)),
+    [jsonData, decodedPaths]
+  );
+
+  const diffResult = useMemo(
+    () =>
+      viewData !== null && comparedDocument
+        ? diffJson(viewData, applyDecodedPaths(comparedDocument.data, decodedPaths), comparedDocument.options)
+        : null,
+    [viewData, comparedDocument, decodedPaths]
+  );
+
+  const treeData = diffResult ? diffResult.merged : viewData;
+
+  const diffVisibleKeys = useMemo(() => {
+    if (!diffResult || !onlyDifferences) return undefined;
+    return new Set(diffResult.entries.keys());
+  }, [diffResult, onlyDifferences]);
+
+  const treeRows = useMemo(
+    () => (treeData ? flattenTree(treeData, expandedPaths, childLimits, childPageSize, diffVisibleKeys) : []),
+    [treeData, expandedPaths, childLimits, childPageSize, diffVisibleKeys]
+  );
+
+  const searchMatchKeys = useMemo(
+    () => new Set(searchMatches.map((path) => JSON.stringify(path))),
+    [searchMatches]
+  );
+
+  const activeSearchKey =
+    searchMatches.length > 0 ? JSON.stringify(searchMatches[activeSearchIndex]) : null;
 
   const selectedValueKeys = useMemo(() => {
     const keys = new Set<string>();
     selectedFields.forEach((selection) => {
-      keys.add(JSON.stringify(selection.rawPath));
+      if (hasWildcard(selection.rawPath)) return;
+      if (isConcretePath(selection.rawPath)) {
+        keys.add(JSON.stringify(selection.rawPath));
+      } else if (viewData) {
+        resolveSelectionPaths(viewData, selection.rawPath).forEach((resolved) => {
+          keys.add(JSON.stringify(resolved));
+        });
+      }
     });
     return keys;
-  }, [selectedFields]);
+  }, [selectedFields, viewData]);
 
-  const pythonCode = useMemo(
-    () => generatePythonCode(selectedFields, columnName),
-    [selectedFields, columnName]
+  const wildcardValueKeys = useMemo(() => {
+    const keys = new Set<string>();
+    if (!viewData) return keys;
+    selectedFields.forEach((selection) => {
+      if (!hasWildcard(selection.rawPath)) return;
+      resolveSelectionPaths(viewData, selection.rawPath).forEach((resolved) => {
+        keys.add(JSON.stringify(resolved));
+      });
+    });
+    return keys;
+  }, [selectedFields, viewData]);
+
+  const missingSelectionKeys = useMemo(() => {
+    const keys = new Set<string>();
+    if (!viewData) return keys;
+    selectedFields.forEach((selection, selectionKey) => {
+      if (resolveSelectionPaths(viewData, selection.rawPath).length === 0) {
+        keys.add(selectionKey);
+      }
+    });
+    return keys;
+  }, [selectedFields, viewData]);
+
+  const outputSettings = useMemo<OutputSettings>(
+    () => ({
+      target: codeTarget,
+      wildcardMode,
+      sqlDialect,
+      tableName,
+      jqFormat,
+      literalEvalFallback,
+      ...pandasSettings,
+    }),
+    [codeTarget, wildcardMode, sqlDialect, tableName, jqFormat, literalEvalFallback, pandasSettings]
   );
 
+  const hasWildcardSelections = useMemo(
+    () => Array.from(selectedFields.values()).some((selection) => hasWildcard(selection.rawPath)),
+    [selectedFields]
+  );
+
+  const pythonCode = useMemo(() => {
+    if (codeTarget === "polars") {
+      return generatePolarsCode(selectedFields, columnName, { wildcardMode });
+    }
+    if (codeTarget === "pyspark") {
+      return generatePySparkCode(selectedFields, columnName, jsonData, { wildcardMode });
+    }
+    if (codeTarget === "sql") {
+      return generateSqlCode(selectedFields, columnName, tableName, sqlDialect, { wildcardMode });
+    }
+    if (codeTarget === "jq") {
+      return generateJqCode(selectedFields, jqFormat, { wildcardMode });
+    }
+    return generatePythonCode(selectedFields, columnName, { wildcardMode, literalEvalFallback, ...pandasSettings });
+  }, [
+    selectedFields,
+    columnName,
+    tableName,
+    jsonData,
+    wildcardMode,
+    codeTarget,
+    sqlDialect,
+    jqFormat,
+    literalEvalFallback,
+    pandasSettings,
+  ]);
+
   const copyToClipboard = useCallback(async (text: string): Promise<boolean> => {
     try {
       if (typeof navigator !== "undefined" && navigator.clipboard?.writeText) {
@@ -144,19 +468,63 @@ export default function Home() {
   }, []);
 
   const applyParsedJson = useCallback(
-    (raw: string, successMessage?: string) => {
+    (
+      source: string | File,
+      successMessage?: string,
+      mode: InputMode = "document",
+      onApplied?: () => void,
+      keepSelections = false,
+      onFailed?: () => void
+    ) => {
+      parseTaskRef.current?.cancel();
       setIsLoading(true);
-      setJsonInput(raw);
-      const processJson = () => {
-        try {
-          const parsed = JSON.parse(raw) as JSONValue;
+      setLoadProgress(null);
+      setRepairNotice(null);
+      setInputError(null);
+      if (typeof source === "string") {
+        setJsonInput(source);
+        setLoadedFileLabel(null);
+      }
+
+      const task = startParseTask(
+        typeof source === "string" ? { kind: "text", text: source } : { kind: "file", file: source },
+        mode,
+        lenientParsingRef.current,
+        setLoadProgress,
+        (root) => {
+          if (parseTaskRef.current !== task) return;
+          setJsonData(copyContainer(root));
+          setDataRevision((revision) => revision + 1);
+        }
+      );
+      parseTaskRef.current = task;
+
+      task.ready
+        .then((result) => {
+          if (!result || parseTaskRef.current !== task) return;
+          const { data: parsed, estimated } = result;
+          const text = typeof source === "string" ? source : result.raw;
+          if (typeof source !== "string") {
+            setJsonInput(text ?? "");
+            setLoadedFileLabel(text === null ? `${source.name} (${formatBytes(source.size)})` : null);
+          }
+          setPathStats(result.pathStats);
+          setRecordCount(result.recordCount);
+          setSampleRecords(result.sampleRecords);
+          if (result.repairs.length > 0) {
+            setRepairNotice({ repairs: result.repairs, strictText: result.strictText });
+            successMessage = `${successMessage ?? "JSON parsed successfully!"} Applied ${result.repairs.length} repair${result.repairs.length === 1 ? "" : "s"}.`;
+          }
+          if (mode === "records") {
+            successMessage = `${successMessage ?? "JSON parsed successfully!"} Merged ${result.recordCount} record${result.recordCount === 1 ? "" : "s"}.`;
+          }
           setJsonData(parsed);
-          const estimated = countExpandableNodes(parsed, ESTIMATE_CAP);
+          lastSearchRef.current = { key: "", matches: [] };
           let expanded: Set<string>;
 
           if (estimated > VERY_LARGE_THRESHOLD) {
             expanded = new Set([ROOT_PATH_KEY]);
-            setMaxChildrenToShow(50);
+            setChildPageSize(50);
             setMessage({
               type: "success",
               text:
@@ -165,7 +533,7 @@ export default function Home() {
             });
           } else if (estimated > LARGE_THRESHOLD) {
             expanded = buildExpandedSetForDepth(parsed, LARGE_AUTO_EXPAND_DEPTH);
-            setMaxChildrenToShow(100);
+            setChildPageSize(100);
             setMessage({
               type: "success",
               text:
@@ -174,7 +542,7 @@ export default function Home() {
             });
           } else {
             expanded = buildExpandedSetForDepth(parsed, DEFAULT_AUTO_EXPAND_DEPTH);
-            setMaxChildrenToShow(200);
+            setChildPageSize(200);
             setMessage({
               type: "success",
               text:
@@ -182,58 +550,293 @@ export default function Home() {
                 " Tree stays collapsed; click \u25b8 to drill down.",
             });
           }
-          setExpandedPaths(expanded);
-          setSelectedFields(new Map());
+          setChildLimits(new Map());
+          setQueryMatches(null);
+          if (keepSelections) {
+            setExpandedPaths((previous) => new Set([...previous, ...expanded]));
+          } else {
+            setExpandedPaths(expanded);
+            setSelectedFields(new Map());
+            setWildcardPaths(new Set());
+            setDecodedPaths(new Set());
+          }
+          setComparedDocument(null);
           setCodeStatus("");
-        } catch (error) {
+          appliedInputRef.current = { raw: result.strictText ?? text ?? "", mode };
+          onApplied?.();
+        })
+        .catch((error: unknown) => {
+          if (parseTaskRef.current !== task) return;
+          onFailed?.();
           const messageText =
             error instanceof Error ? error.message : "Unknown parsing error";
+          const details = error instanceof ParseTaskError ? error.details : null;
+          if (details && typeof source === "string") {
+            setInputError(details);
+          }
           setMessage({
             type: "error",
-            text: `Invalid JSON: ${messageText}`,
+            text: details
+              ? `Invalid JSON at line ${details.line}, column ${details.column}: ${messageText}`
+              : `Invalid JSON: ${messageText}`,
+            parseError: details ?? undefined,
           });
-        } finally {
+        })
+        .finally(() => {
+          if (parseTaskRef.current !== task) return;
           setIsLoading(false);
-        }
-      };
-
-      if (typeof window !== "undefined" && "requestIdleCallback" in window) {
-        (window as unknown as { requestIdleCallback: (cb: () => void, opts: { timeout: number }) => void })
-          .requestIdleCallback(processJson, { timeout: 1000 });
-      } else {
-        setTimeout(processJson, 0);
-      }
+          setLoadProgress(null);
+          void task.promise
+            .catch(() => null)
+            .then(() => {
+              if (parseTaskRef.current === task) parseTaskRef.current = null;
+            });
+        });
     },
     []
   );
 
+  const handleCancelParse = useCallback(() => {
+    const task = parseTaskRef.current;
+    if (!task) return;
+    parseTaskRef.current = null;
+    task.cancel();
+    setIsLoading(false);
+    setLoadProgress(null);
+    setMessage({ type: "success", text: "Parsing cancelled." });
+  }, []);
+
+  const applyShareState = useCallback((state: ShareState) => {
+    if (state.spec.columnName) setColumnName(state.spec.columnName);
+    setCodeTarget(state.spec.output.target);
+    setWildcardMode(state.spec.output.wildcardMode);
+    setSqlDialect(state.spec.output.sqlDialect);
+    setTableName(state.spec.output.tableName);
+    setJqFormat(state.spec.output.jqFormat);
+    setLiteralEvalFallback(state.spec.output.literalEvalFallback);
+    setPandasSettings(pickPandasSettings(state.spec.output));
+    setSelectedFields(specToSelections(state.spec));
+    setWildcardPaths(new Set(state.wildcardPaths));
+    setDecodedPaths(new Set(state.decodedPaths));
+    setExpandedPaths(new Set(state.expandedPaths.length ? state.expandedPaths : [ROOT_PATH_KEY]));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const restore = async () => {
+      const hash = window.location.hash;
+      if (hash.startsWith(SHARE_HASH_PREFIX)) {
+        try {
+          const state = await decodeShareState(hash, DEFAULT_OUTPUT_SETTINGS);
+          if (cancelled) return;
+          if (state.payload !== undefined) {
+            setInputMode(state.inputMode);
+            applyParsedJson(state.payload, "Shared link restored.", state.inputMode, () =>
+              applyShareState(state)
+            );
+          } else {
+            applyShareState(state);
+            setMessage({
+              type: "success",
+              text: "Shared selections restored. The link did not include the payload; paste it to match.",
+            });
+          }
+        } catch {
+          if (cancelled) return;
+          setMessage({ type: "error", text: "Unable to restore state from the shared link." });
+        }
+      }
+      if (!cancelled) setIsShareReady(true);
+    };
+    void restore();
+    return () => {
+      cancelled = true;
+    };
+  }, [applyParsedJson, applyShareState]);
+
+  const buildShareHash = useCallback(async (includePayload: boolean) => {
+    const state: ShareState = {
+      spec: buildExtractionSpec(columnName, selectedFields, outputSettings),
+      expandedPaths: Array.from(expandedPaths),
+      wildcardPaths: Array.from(wildcardPaths),
+      decodedPaths: Array.from(decodedPaths),
+      inputMode: appliedInputRef.current.mode,
+    };
+    const { raw } = appliedInputRef.current;
+    if (includePayload && raw && raw.length <= MAX_SHARE_HASH_LENGTH * 8) {
+      const withPayload = await encodeShareState({ ...state, payload: raw });
+      if (withPayload.length <= MAX_SHARE_HASH_LENGTH) {
+        return { hash: withPayload, includesPayload: true };
+      }
+    }
+    return { hash: await encodeShareState(state), includesPayload: false };
+  }, [columnName, selectedFields, outputSettings, expandedPaths, wildcardPaths, decodedPaths]);
+
+  useEffect(() => {
+    if (!isShareReady || isLoading) return;
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      void buildShareHash(false).then(({ hash }) => {
+        if (!cancelled) window.history.replaceState(null, "", hash);
+      });
+    }, 500);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [isShareReady, isLoading, buildShareHash]);
+
+  const handleCopyShareLink = useCallback(async () => {
+    const { hash, includesPayload } = await buildShareHash(includePayloadInLink);
+    const { origin, pathname, search } = window.location;
+    const success = await copyToClipboard(`${origin}${pathname}${search}${hash}`);
+    if (!success) {
+      setMessage({ type: "error", text: "Unable to copy share link." });
+      return;
+    }
+    let text = "Share link copied. Recipients need to paste the payload themselves.";
+    if (includesPayload) {
+      text = "Share link copied (payload included).";
+    } else if (includePayloadInLink) {
+      text = "Share link copied. The payload is too large to inline; recipients need to paste it themselves.";
+    }
+    setMessage({ type: "success", text });
+  }, [buildShareHash, copyToClipboard, includePayloadInLink]);
+
   const handleParse = useCallback(() => {
     if (!jsonInput.trim()) {
       setMessage({ type: "error", text: "Please enter JSON data." });
       return;
     }
-    applyParsedJson(jsonInput, "JSON parsed successfully!");
+    applyParsedJson(jsonInput, "JSON parsed successfully!", inputMode);
     setCodeStatus("");
-  }, [jsonInput, applyParsedJson]);
+  }, [jsonInput, inputMode, applyParsedJson]);
 
   const handleLoadSample = useCallback(() => {
-    applyParsedJson(SAMPLE_JSON_STRING, "Sample JSON loaded.");
+    setTableSource(null);
+    setInputMode("document");
+    applyParsedJson(SAMPLE_JSON_STRING, "Sample JSON loaded.", "document");
     setCodeStatus("");
   }, [applyParsedJson]);
 
   const processFile = useCallback(
     (file: File) => {
-      const reader = new FileReader();
-      reader.onload = (loadEvent) => {
-        const text = String(loadEvent.target?.result ?? "");
-        applyParsedJson(text, "JSON file parsed successfully!");
-        setCodeStatus("");
+      const mode: InputMode = isRecordsFileName(file.name) ? "records" : inputMode;
+      setTableSource(null);
+      setInputMode(mode);
+      applyParsedJson(file, "JSON file parsed successfully!", mode);
+      setCodeStatus("");
+    },
+    [inputMode, applyParsedJson]
+  );
+
+  const showTableRow = useCallback(
+    (table: TableSource, column: string, index: number, keepSelections = true) => {
+      const columnIndex = table.columns.indexOf(column);
+      const cell = columnIndex === -1 ? "" : table.rows[index]?.[columnIndex] ?? "";
+      const clearTree = () => {
+        setTableRowIndex(index);
+        setJsonData(null);
       };
-      reader.readAsText(file);
+      if (!cell.trim()) {
+        clearTree();
+        setMessage({ type: "error", text: `Row ${index + 1} has no value in column "${column}".` });
+        return;
+      }
+      setInputMode("document");
+      applyParsedJson(
+        cell,
+        `Loaded row ${index + 1} of ${table.rows.length} from "${column}".`,
+        "document",
+        () => setTableRowIndex(index),
+        keepSelections,
+        clearTree
+      );
     },
     [applyParsedJson]
   );
 
+  const mergeTableRows = useCallback(
+    (table: TableSource, column: string) => {
+      setInputMode("records");
+      applyParsedJson(
+        buildColumnRecords(table, column),
+        `Merged ${table.rows.length} rows from "${column}".`,
+        "records",
+        () => setTableRowIndex(null),
+        true
+      );
+    },
+    [applyParsedJson]
+  );
+
+  const loadTableFile = useCallback(
+    (file: File) => {
+      file
+        .text()
+        .then((text) => {
+          const table = parseTable(text, file.name);
+          if (table.rows.length === 0) {
+            setMessage({ type: "error", text: `${file.name} has no data rows.` });
+            return;
+          }
+          const column = table.columns.includes(columnName)
+            ? columnName
+            : detectJsonColumn(table) ?? table.columns[0];
+          setTableSource(table);
+          setColumnName(column);
+          setCodeStatus("");
+          showTableRow(table, column, 0, false);
+        })
+        .catch((error: unknown) => {
+          setMessage({
+            type: "error",
+            text: `Could not read table: ${error instanceof Error ? error.message : "Unknown error"}`,
+          });
+        });
+    },
+    [columnName, showTableRow]
+  );
+
+  const handleTableUpload = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = "";
+      if (file) loadTableFile(file);
+    },
+    [loadTableFile]
+  );
+
+  const handleTableColumnChange = useCallback(
+    (column: string) => {
+      if (!tableSource) return;
+      setColumnName(column);
+      setCodeStatus("");
+      if (tableRowIndex === null) {
+        mergeTableRows(tableSource, column);
+      } else {
+        showTableRow(tableSource, column, tableRowIndex, false);
+      }
+    },
+    [tableSource, tableRowIndex, mergeTableRows, showTableRow]
+  );
+
+  const handleSelectTableRow = useCallback(
+    (index: number) => {
+      if (tableSource) showTableRow(tableSource, columnName, index);
+    },
+    [tableSource, columnName, showTableRow]
+  );
+
+  const handleMergeTableRows = useCallback(() => {
+    if (tableSource) mergeTableRows(tableSource, columnName);
+  }, [tableSource, columnName, mergeTableRows]);
+
+  const handleCloseTable = useCallback(() => {
+    setTableSource(null);
+    setTableRowIndex(null);
+  }, []);
+
   const handleFileUpload = useCallback(
     (event: ChangeEvent<HTMLInputElement>) => {
       const file = event.target.files?.[0];
@@ -260,19 +863,67 @@ export default function Home() {
       event.stopPropagation();
       setIsDragging(false);
       const file = event.dataTransfer.files?.[0];
-      if (file && (file.type === "application/json" || file.name.endsWith(".json"))) {
+      if (file && isTableFileName(file.name)) {
+        loadTableFile(file);
+      } else if (
+        file &&
+        (file.type === "application/json" || file.name.endsWith(".json") || isRecordsFileName(file.name))
+      ) {
         processFile(file);
       } else if (file) {
-        setMessage({ type: "error", text: "Please drop a .json file." });
+        setMessage({ type: "error", text: "Please drop a .json, .jsonl, .ndjson, .csv or .tsv file." });
       }
     },
-    [processFile]
+    [processFile, loadTableFile]
   );
 
   const handleJsonInputChange = useCallback(
     (event: ChangeEvent<HTMLTextAreaElement>) => {
       setJsonInput(event.target.value);
+      setLoadedFileLabel(null);
       setMessage(null);
+      setInputError(null);
+    },
+    []
+  );
+
+  const handleTextareaScroll = useCallback((event: UIEvent<HTMLTextAreaElement>) => {
+    if (textareaBackdropRef.current) {
+      textareaBackdropRef.current.scrollTop = event.currentTarget.scrollTop;
+    }
+  }, []);
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!inputError || !textarea) return;
+    const { position } = inputError;
+    textarea.focus({ preventScroll: true });
+    textarea.setSelectionRange(position, Math.min(position + 1, textarea.value.length));
+    const backdrop = textareaBackdropRef.current;
+    const mark = backdrop?.querySelector("mark");
+    if (backdrop && mark) {
+      textarea.scrollTop = Math.max(0, mark.offsetTop - textarea.clientHeight / 3);
+      backdrop.scrollTop = textarea.scrollTop;
+    }
+  }, [inputError]);
+
+  const handleInputModeChange = useCallback(
+    (event: ChangeEvent<HTMLSelectElement>) => {
+      setInputMode(event.target.value as InputMode);
+    },
+    []
+  );
+
+  const handleQueryTextChange = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      setQueryText(event.target.value);
+    },
+    []
+  );
+
+  const handleQuerySyntaxChange = useCallback(
+    (event: ChangeEvent<HTMLSelectElement>) => {
+      setQuerySyntax(event.target.value as QuerySyntax);
     },
     []
   );
@@ -304,11 +955,285 @@ export default function Home() {
     });
   }, []);
 
-  const handleSelectValue = useCallback((path: Path) => {
+  const handleShowMoreChildren = useCallback((pathKey: string, limit: number) => {
+    setChildLimits((previous) => {
+      const next = new Map(previous);
+      next.set(pathKey, limit);
+      return next;
+    });
+  }, []);
+
+  const revealPath = useCallback(
+    (path: Path, focus = true) => {
+      if (!treeData) return;
+      setExpandedPaths((previous) => expandAncestors(previous, [path]));
+      setChildLimits((previous) => extendChildLimits(treeData, previous, [path], childPageSize));
+      setScrollTarget({ pathKey: JSON.stringify(path), id: Date.now(), focus });
+    },
+    [treeData, childPageSize]
+  );
+
+  const searchContextRef = useRef({ treeData, childPageSize, activeSearchIndex });
+  useEffect(() => {
+    searchContextRef.current = { treeData, childPageSize, activeSearchIndex };
+  }, [treeData, childPageSize, activeSearchIndex]);
+
+  const runSearch = useCallback((term: string, options: SearchOptions) => {
+    const { treeData: data, childPageSize: pageSize, activeSearchIndex: activeIndex } = searchContextRef.current;
+    const clearMatches = (error: string) => {
+      lastSearchRef.current = { key: "", matches: [] };
+      setActiveSearchIndex(0);
+      setSearchMatches((previous) => (previous.length > 0 ? [] : previous));
+      setSearchError(error);
+    };
+    if (!data || !term.trim()) {
+      clearMatches("");
+      return;
+    }
+
+    let matches: Path[];
+    try {
+      matches = findSearchMatches(data, term, options, MAX_SEARCH_MATCHES);
+    } catch (error) {
+      clearMatches(error instanceof Error ? error.message : "Invalid search pattern");
+      return;
+    }
+
+    setSearchError("");
+    const key = JSON.stringify(matches);
+    const last = lastSearchRef.current;
+    if (key === last.key) return;
+    lastSearchRef.current = { key, matches };
+    setSearchMatches(matches);
+
+    const activeMatch = last.matches[activeIndex];
+    const keptIndex = activeMatch
+      ? matches.findIndex((path) => JSON.stringify(path) === JSON.stringify(activeMatch))
+      : -1;
+    setActiveSearchIndex(Math.max(keptIndex, 0));
+    if (matches.length === 0) return;
+    setExpandedPaths((previous) => expandAncestors(previous, matches));
+    setChildLimits((previous) => extendChildLimits(data, previous, matches, pageSize));
+    if (keptIndex === -1) {
+      setScrollTarget({ pathKey: JSON.stringify(matches[0]), id: Date.now(), focus: false });
+    }
+  }, []);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => runSearch(searchTerm, searchOptions), 300);
+    return () => window.clearTimeout(timer);
+  }, [searchTerm, searchOptions, jsonData, runSearch]);
+
+  const handleStepSearch = useCallback(
+    (direction: 1 | -1) => {
+      if (searchMatches.length === 0) return;
+      const index = (activeSearchIndex + direction + searchMatches.length) % searchMatches.length;
+      setActiveSearchIndex(index);
+      revealPath(searchMatches[index], false);
+    },
+    [searchMatches, activeSearchIndex, revealPath]
+  );
+
+  const handleSearchKeyDown = useCallback(
+    (event: KeyboardEvent<HTMLInputElement>) => {
+      if (event.key === "Enter") {
+        event.preventDefault();
+        handleStepSearch(event.shiftKey ? -1 : 1);
+      }
+    },
+    [handleStepSearch]
+  );
+
+  const handleSearchOptionChange = useCallback((changes: Partial<SearchOptions>) => {
+    setSearchOptions((previous) => ({ ...previous, ...changes }));
+  }, []);
+
+  const handleJumpToIndex = useCallback(
+    (path: Path, index: number) => revealPath([...path, index]),
+    [revealPath]
+  );
+
+  const handleRunQuery = useCallback(() => {
+    if (!viewData) return;
+    if (!queryText.trim()) {
+      setQueryMatches(null);
+      return;
+    }
+    try {
+      const matches = evaluateQuery(viewData, queryText, querySyntax);
+      setQueryMatches(matches);
+      setExpandedPaths((previous) => expandAncestors(previous, matches));
+      setChildLimits((previous) => extendChildLimits(viewData, previous, matches, childPageSize));
+      if (matches.length > 0) {
+        setScrollTarget({ pathKey: JSON.stringify(matches[0]), id: Date.now(), focus: false });
+      }
+    } catch (error) {
+      setQueryMatches(null);
+      setMessage({
+        type: "error",
+        text: `Query error: ${error instanceof Error ? error.message : "Unknown error"}`,
+      });
+    }
+  }, [viewData, queryText, querySyntax, childPageSize]);
+
+  const handleQueryKeyDown = useCallback(
+    (event: KeyboardEvent<HTMLInputElement>) => {
+      if (event.key === "Enter") {
+        event.preventDefault();
+        handleRunQuery();
+      }
+    },
+    [handleRunQuery]
+  );
+
+  const handleAddQueryResults = useCallback(() => {
+    if (!viewData || !queryMatches || queryMatches.length === 0) return;
+
+    const seen = new Set<string>();
+    const leafPaths = queryMatches
+      .flatMap((path) => collectLeafPaths(getValueAtPath(viewData, path) ?? null, path))
+      .filter((leafPath) => {
+        const key = JSON.stringify(leafPath);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+
+    if (leafPaths.length > MAX_QUERY_FIELDS) {
+      setMessage({
+        type: "error",
+        text: `Query matched ${leafPaths.length} fields; narrow it to at most ${MAX_QUERY_FIELDS} before adding.`,
+      });
+      return;
+    }
+
+    let added = 0;
     setSelectedFields((previous) => {
-      const normalizedPath = normalizePath(path);
+      const next = new Map(previous);
+      leafPaths.forEach((leafPath) => {
+        const normalizedPath = toSelectionPath(normalizePath(leafPath), wildcardPaths, decodedPaths);
+        const selectionKey = createSelectionKey(normalizedPath);
+        if (next.has(selectionKey)) return;
+        const baseFieldName = generateFieldName(buildSegments(normalizedPath), normalizedPath);
+        const fieldName = ensureUniqueFieldName(baseFieldName, next);
+        const dtype = inferFieldDtype(getValueAtPath(viewData, leafPath));
+        next.set(selectionKey, { fieldName, rawPath: normalizedPath, dtype });
+        added += 1;
+      });
+      return next;
+    });
+
+    setMessage({
+      type: "success",
+      text: added > 0
+        ? `Added ${added} field${added === 1 ? "" : "s"} from the query results.`
+        : "All query results are already selected.",
+    });
+    setCodeStatus("");
+  }, [viewData, queryMatches, wildcardPaths, decodedPaths]);
+
+  const handleToggleWildcard = useCallback((pathKey: string) => {
+    setWildcardPaths((previous) => {
+      const next = new Set(previous);
+      if (next.has(pathKey)) {
+        next.delete(pathKey);
+      } else {
+        next.add(pathKey);
+      }
+      return next;
+    });
+  }, []);
+
+  const handleToggleDecode = useCallback((pathKey: string) => {
+    setDecodedPaths((previous) => {
+      const next = new Set(previous);
+      if (next.has(pathKey)) {
+        const descendantPrefix = `${pathKey.slice(0, -1)},`;
+        next.forEach((key) => {
+          if (key === pathKey || key.startsWith(descendantPrefix)) next.delete(key);
+        });
+      } else {
+        next.add(pathKey);
+      }
+      return next;
+    });
+    setExpandedPaths((previous) => (previous.has(pathKey) ? previous : new Set(previous).add(pathKey)));
+  }, []);
+
+  const handleWildcardModeChange = useCallback(
+    (event: ChangeEvent<HTMLSelectElement>) => {
+      setWildcardMode(event.target.value as WildcardMode);
+      setCodeStatus("");
+    },
+    []
+  );
+
+  const handleCodeTargetChange = useCallback(
+    (event: ChangeEvent<HTMLSelectElement>) => {
+      setCodeTarget(event.target.value as CodeTarget);
+      setCodeStatus("");
+    },
+    []
+  );
+
+  const handleSqlDialectChange = useCallback(
+    (event: ChangeEvent<HTMLSelectElement>) => {
+      setSqlDialect(event.target.value as SqlDialect);
+      setCodeStatus("");
+    },
+    []
+  );
+
+  const handleJqFormatChange = useCallback(
+    (event: ChangeEvent<HTMLSelectElement>) => {
+      setJqFormat(event.target.value as JqFormat);
+      setCodeStatus("");
+    },
+    []
+  );
+
+  const handlePandasSettingsChange = useCallback((changes: Partial<PandasCodeSettings>) => {
+    setPandasSettings((previous) => ({ ...previous, ...changes }));
+    setCodeStatus("");
+  }, []);
+
+  const handleLiteralEvalFallbackChange = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      setLiteralEvalFallback(event.target.checked);
+      setCodeStatus("");
+    },
+    []
+  );
+
+  const handleLenientParsingChange = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      setLenientParsing(event.target.checked);
+      lenientParsingRef.current = event.target.checked;
+    },
+    []
+  );
+
+  const handleRewriteStrict = useCallback(() => {
+    if (!repairNotice || repairNotice.strictText === null) return;
+    setJsonInput(repairNotice.strictText);
+    appliedInputRef.current = { ...appliedInputRef.current, raw: repairNotice.strictText };
+    setRepairNotice(null);
+    setMessage({ type: "success", text: "Input rewritten as strict JSON." });
+  }, [repairNotice]);
+
+  const handleTableNameChange = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      setTableName(event.target.value);
+      setCodeStatus("");
+    },
+    []
+  );
+
+  const handleSelectValue = useCallback((path: Path, value: JSONValue) => {
+    setSelectedFields((previous) => {
+      const normalizedPath = toSelectionPath(normalizePath(path), wildcardPaths, decodedPaths);
       const segments = buildSegments(normalizedPath);
-      const selectionKey = createSelectionKey(segments, normalizedPath);
+      const selectionKey = createSelectionKey(normalizedPath);
 
       if (previous.has(selectionKey)) {
         const next = new Map(previous);
@@ -319,11 +1244,11 @@ export default function Home() {
       const next = new Map(previous);
       const baseFieldName = generateFieldName(segments, normalizedPath);
       const fieldName = ensureUniqueFieldName(baseFieldName, next);
-      next.set(selectionKey, { fieldName, rawPath: normalizedPath });
+      next.set(selectionKey, { fieldName, rawPath: normalizedPath, dtype: inferFieldDtype(value) });
       return next;
     });
     setCodeStatus("");
-  }, []);
+  }, [wildcardPaths, decodedPaths]);
 
   const handleSelectSubtree = useCallback((path: Path, value: JSONValue) => {
     const leafPaths = collectLeafPaths(value, [...path]);
@@ -338,10 +1263,11 @@ export default function Home() {
     setSelectedFields((previous) => {
       const next = new Map(previous);
       const normalizedEntries = leafPaths.map((leafPath) => {
-        const normalizedPath = normalizePath(leafPath);
+        const normalizedPath = toSelectionPath(normalizePath(leafPath), wildcardPaths, decodedPaths);
         const segments = buildSegments(normalizedPath);
-        const selectionKey = createSelectionKey(segments, normalizedPath);
-        return { normalizedPath, segments, selectionKey };
+        const selectionKey = createSelectionKey(normalizedPath);
+        const leafValue = getValueAtPath(value, leafPath.slice(path.length));
+        return { normalizedPath, segments, selectionKey, leafValue };
       });
 
       const allSelected = normalizedEntries.every(({ selectionKey }) =>
@@ -355,11 +1281,11 @@ export default function Home() {
         return next;
       }
 
-      normalizedEntries.forEach(({ normalizedPath, segments, selectionKey }) => {
+      normalizedEntries.forEach(({ normalizedPath, segments, selectionKey, leafValue }) => {
         if (next.has(selectionKey)) return;
         const baseFieldName = generateFieldName(segments, normalizedPath);
         const fieldName = ensureUniqueFieldName(baseFieldName, next);
-        next.set(selectionKey, { fieldName, rawPath: normalizedPath });
+        next.set(selectionKey, { fieldName, rawPath: normalizedPath, dtype: inferFieldDtype(leafValue) });
         added += 1;
       });
 
@@ -373,7 +1299,28 @@ export default function Home() {
     }
 
     setCodeStatus("");
-  }, []);
+  }, [wildcardPaths, decodedPaths]);
+
+  const handleAggregateArray = useCallback(
+    (path: Path, value: JSONValue, kind: AggregateKind) => {
+      const elementKey = suggestAggregateKey(value, kind);
+      const rawPath: SelectionPath = [
+        ...toSelectionPath(normalizePath(path), wildcardPaths, decodedPaths),
+        WILDCARD,
+        ...(elementKey === null ? [] : [elementKey]),
+      ];
+      const selectionKey = createSelectionKey(rawPath, kind);
+      setSelectedFields((previous) => {
+        if (previous.has(selectionKey)) return previous;
+        const next = new Map(previous);
+        const fieldName = ensureUniqueFieldName(aggregateFieldName(rawPath, kind), next);
+        next.set(selectionKey, { fieldName, rawPath, dtype: aggregateDtype(kind), aggregate: { kind } });
+        return next;
+      });
+      setCodeStatus("");
+    },
+    [wildcardPaths, decodedPaths]
+  );
 
   const handleRemoveSelection = useCallback((selectionKey: string) => {
     setSelectedFields((previous) => {
@@ -385,6 +1332,108 @@ export default function Home() {
     setCodeStatus("");
   }, []);
 
+  const handleUpdateSelection = useCallback(
+    (selectionKey: string, changes: Partial<FieldSelection>) => {
+      setSelectedFields((previous) => {
+        const current = previous.get(selectionKey);
+        if (!current) return previous;
+        const next = new Map(previous);
+        next.set(selectionKey, { ...current, ...changes });
+        return next;
+      });
+      setCodeStatus("");
+    },
+    []
+  );
+
+  const getSampleElement = useCallback(
+    (path: SelectionPath, stepIndex: number, elementIndex: number) => {
+      if (!viewData) return undefined;
+      const items = resolveSelectionValues(viewData, path.slice(0, stepIndex)).find(Array.isArray);
+      return items?.[elementIndex];
+    },
+    [viewData]
+  );
+
+  const previewTable = useMemo(() => {
+    if (jsonData === null || selectedFields.size === 0) return null;
+    const records = sampleRecords ?? [jsonData];
+    return buildPreviewTable(records, Array.from(selectedFields.values()), wildcardMode);
+  }, [jsonData, sampleRecords, selectedFields, wildcardMode]);
+
+  const aggregateValues = useMemo(() => {
+    const values = new Map<string, JSONValue>();
+    if (!previewTable || previewTable.rows.length === 0) return values;
+    selectedFields.forEach((selection, selectionKey) => {
+      if (!isAggregated(selection)) return;
+      values.set(selectionKey, previewTable.rows[0][previewTable.columns.indexOf(selection.fieldName)] ?? null);
+    });
+    return values;
+  }, [previewTable, selectedFields]);
+
+  const handleDownloadPreviewCsv = useCallback(() => {
+    if (!previewTable) return;
+    downloadTextFile("extraction-preview.csv", previewToCsv(previewTable), "text/csv");
+  }, [previewTable]);
+
+  const handleDownloadPreviewJson = useCallback(() => {
+    if (!previewTable) return;
+    downloadTextFile("extraction-preview.json", previewToJson(previewTable), "application/json");
+  }, [previewTable]);
+
+  const handleExportSpec = useCallback(() => {
+    if (selectedFields.size === 0) return;
+    const spec = buildExtractionSpec(columnName, selectedFields, outputSettings);
+    downloadTextFile("extraction-spec.json", `${JSON.stringify(spec, null, 2)}\n`, "application/json");
+    setMessage({ type: "success", text: `Exported extraction spec with ${spec.fields.length} field(s).` });
+  }, [columnName, selectedFields, outputSettings]);
+
+  const handleImportSpec = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = "";
+      if (!file) return;
+      const reader = new FileReader();
+      reader.onload = (loadEvent) => {
+        try {
+          const spec = parseExtractionSpec(String(loadEvent.target?.result ?? ""), outputSettings);
+          const selections = specToSelections(spec);
+          if (spec.columnName) setColumnName(spec.columnName);
+          setCodeTarget(spec.output.target);
+          setWildcardMode(spec.output.wildcardMode);
+          setSqlDialect(spec.output.sqlDialect);
+          setTableName(spec.output.tableName);
+          setJqFormat(spec.output.jqFormat);
+          setLiteralEvalFallback(spec.output.literalEvalFallback);
+          setPandasSettings(pickPandasSettings(spec.output));
+          setSelectedFields(selections);
+          setCodeStatus("");
+          if (jsonData) {
+            const decoded = collectDecodedPaths(
+              jsonData,
+              Array.from(selections.values(), (selection) => selection.rawPath)
+            );
+            setDecodedPaths(decoded);
+            setExpandedPaths((previous) => new Set([...previous, ...decoded]));
+          }
+          const missing = jsonData
+            ? Array.from(selections.values()).filter(
+                (selection) => resolveSelectionPaths(jsonData, selection.rawPath).length === 0
+              ).length
+            : 0;
+          setMessage(missing > 0
+            ? { type: "error", text: `Imported ${selections.size} field(s); ${missing} path(s) not found in the loaded payload.` }
+            : { type: "success", text: `Imported ${selections.size} field(s) from extraction spec.` });
+        } catch (error) {
+          const messageText = error instanceof Error ? error.message : "Unknown parsing error";
+          setMessage({ type: "error", text: `Invalid extraction spec: ${messageText}` });
+        }
+      };
+      reader.readAsText(file);
+    },
+    [jsonData, outputSettings]
+  );
+
   const handleClearSelections = useCallback(() => {
     setSelectedFields(new Map());
     setCodeStatus("");
@@ -397,13 +1446,72 @@ export default function Home() {
   }, []);
 
   const handleExpandAll = useCallback(() => {
-    if (!jsonData) return;
+    if (!treeData) return;
     const expanded = new Set<string>();
-    collectExpandablePaths(jsonData, [], expanded);
+    collectExpandablePaths(treeData, [], expanded);
     if (expanded.size === 0) expanded.add(ROOT_PATH_KEY);
     setExpandedPaths(expanded);
     setMessage({ type: "success", text: "All nodes expanded." });
-  }, [jsonData]);
+  }, [treeData]);
+
+  const handleCompare = useCallback(
+    (source: string | File, options: DiffOptions) => {
+      if (viewData === null) return;
+      compareTaskRef.current?.cancel();
+      setIsComparing(true);
+
+      const task = startParseTask(
+        typeof source === "string" ? { kind: "text", text: source } : { kind: "file", file: source },
+        "document",
+        lenientParsingRef.current,
+        () => undefined
+      );
+      compareTaskRef.current = task;
+
+      task.promise
+        .then((result) => {
+          if (!result || compareTaskRef.current !== task) return;
+          setComparedDocument({ data: result.data, options });
+          setOnlyDifferences(false);
+          const { entries } = diffJson(viewData, applyDecodedPaths(result.data, decodedPaths), options);
+          setExpandedPaths((previous) => {
+            const expanded = new Set(previous);
+            entries.forEach((entry, pathKey) => {
+              if (entry.status === "changed") expanded.add(pathKey);
+            });
+            return expanded;
+          });
+          setMessage({ type: "success", text: "Comparison complete." });
+        })
+        .catch((error: unknown) => {
+          if (compareTaskRef.current !== task) return;
+          const messageText = error instanceof Error ? error.message : "Unknown parsing error";
+          const details = error instanceof ParseTaskError ? error.details : null;
+          setMessage({
+            type: "error",
+            text: details
+              ? `Invalid comparison JSON at line ${details.line}, column ${details.column}: ${messageText}`
+              : `Invalid comparison JSON: ${messageText}`,
+            parseError: details ?? undefined,
+          });
+        })
+        .finally(() => {
+          if (compareTaskRef.current !== task) return;
+          compareTaskRef.current = null;
+          setIsComparing(false);
+        });
+    },
+    [viewData, decodedPaths]
+  );
+
+  const handleExitCompare = useCallback(() => {
+    compareTaskRef.current?.cancel();
+    compareTaskRef.current = null;
+    setIsComparing(false);
+    setIsCompareOpen(false);
+    setComparedDocument(null);
+    setOnlyDifferences(false);
+  }, []);
 
   const handleCopyPath = useCallback(
     async (path: Path) => {
@@ -411,13 +1519,13 @@ export default function Home() {
         setMessage({ type: "error", text: "No path to copy." });
         return;
       }
-      const dotPath = pathToDotNotation(path);
+      const dotPath = pathToDotNotation(toSelectionPath(path, new Set(), decodedPaths));
       const success = await copyToClipboard(dotPath);
       setMessage(success
         ? { type: "success", text: `Path copied: ${dotPath}` }
         : { type: "error", text: "Unable to copy path." });
     },
-    [copyToClipboard]
+    [copyToClipboard, decodedPaths]
   );
 
   const handleCopyPythonPath = useCallback(
@@ -426,13 +1534,13 @@ export default function Home() {
         setMessage({ type: "error", text: "No path to convert." });
         return;
       }
-      const result = `task${buildPythonAccessPath(path)}`;
+      const result = buildPythonAccessPath(toSelectionPath(path, new Set(), decodedPaths), "task");
       const success = await copyToClipboard(result);
       setMessage(success
         ? { type: "success", text: `Python path copied: ${result}` }
         : { type: "error", text: "Unable to copy Python path." });
     },
-    [copyToClipboard]
+    [copyToClipboard, decodedPaths]
   );
 
   const handleCopyJson = useCallback(
@@ -456,12 +1564,46 @@ export default function Home() {
     const success = await copyToClipboard(pythonCode);
     if (success) {
       setCodeStatus("Copied!");
-      setMessage({ type: "success", text: "Python snippet copied to clipboard." });
+      setMessage({ type: "success", text: `${CODE_TARGET_LANGUAGE[codeTarget]} snippet copied to clipboard.` });
       window.setTimeout(() => setCodeStatus(""), 2000);
     } else {
-      setMessage({ type: "error", text: "Unable to copy Python snippet." });
+      setMessage({ type: "error", text: `Unable to copy ${CODE_TARGET_LANGUAGE[codeTarget]} snippet.` });
     }
-  }, [pythonCode, copyToClipboard]);
+  }, [pythonCode, codeTarget, copyToClipboard]);
+
+  const pytestCode = useMemo(() => {
+    if (!showPytest || codeTarget !== "pandas") return "";
+    return generatePytestModule(selectedFields, columnName, sampleRecords?.[0] ?? jsonData, {
+      wildcardMode,
+      literalEvalFallback,
+      ...pandasSettings,
+    });
+  }, [
+    showPytest,
+    codeTarget,
+    selectedFields,
+    columnName,
+    sampleRecords,
+    jsonData,
+    wildcardMode,
+    literalEvalFallback,
+    pandasSettings,
+  ]);
+
+  const handleCopyPytest = useCallback(async () => {
+    if (!pytestCode) return;
+    const success = await copyToClipboard(pytestCode);
+    setMessage(
+      success
+        ? { type: "success", text: "pytest module copied to clipboard." }
+        : { type: "error", text: "Unable to copy pytest module." }
+    );
+  }, [pytestCode, copyToClipboard]);
+
+  const handleDownloadPytest = useCallback(() => {
+    if (!pytestCode) return;
+    downloadTextFile(PYTEST_FILE_NAME, pytestCode, "text/x-python");
+  }, [pytestCode]);
 
   const selectedEntries = useMemo(
     () => Array.from(selectedFields.entries()),
@@ -470,13 +1612,38 @@ export default function Home() {
 
   const hasPythonCode = pythonCode.trim().length > 0;
 
+  let searchStatus = searchError;
+  if (!searchError && searchTerm.trim()) {
+    searchStatus =
+      searchMatches.length > 0
+        ? `${activeSearchIndex + 1} / ${searchMatches.length}${searchMatches.length >= MAX_SEARCH_MATCHES ? "+" : ""}`
+        : "No matches";
+  }
+
+  let errorLine: { before: string; line: string } | null = null;
+  if (inputError && inputError.position <= MAX_ERROR_HIGHLIGHT_CHARS) {
+    const { position, column } = inputError;
+    const lineStart = position - (column - 1);
+    const lineEnd = jsonInput.indexOf("\n", position);
+    errorLine = {
+      before: jsonInput.slice(0, lineStart),
+      line: jsonInput.slice(lineStart, lineEnd === -1 ? undefined : lineEnd),
+    };
+  }
+
   return (
     <div className="app-shell" aria-busy={isLoading}>
       <div className="card">
         {isLoading && (
           <div className="loading-overlay" role="status" aria-live="polite">
             <div className="spinner" />
-            <div className="loading-text">Loading JSON&hellip;</div>
+            <div className="loading-text">{describeLoadProgress(loadProgress)}</div>
+            {loadProgress && (
+              <progress className="loading-progress" value={progressFraction(loadProgress)} max={1} />
+            )}
+            <button type="button" className="button button-secondary" onClick={handleCancelParse}>
+              Cancel
+            </button>
           </div>
         )}
         <header className="header">
@@ -495,37 +1662,103 @@ export default function Home() {
               <input
                 id="file-input"
                 type="file"
-                accept=".json,application/json"
+                accept=".json,.jsonl,.ndjson,application/json"
                 className="file-input"
                 onChange={handleFileUpload}
                 disabled={isLoading}
               />
               <label htmlFor="file-input" className="file-input-label">
-                Click to upload JSON or drag &amp; drop a file
+                Click to upload JSON / JSON Lines or drag &amp; drop a file (CSV / TSV tables too)
               </label>
             </div>
+            <input
+              id="table-input"
+              type="file"
+              accept=".csv,.tsv,.jsonl,.ndjson,text/csv,text/tab-separated-values"
+              className="visually-hidden"
+              onChange={handleTableUpload}
+              disabled={isLoading}
+            />
+            <label htmlFor="table-input" className="button button-secondary">
+              Upload Table
+            </label>
             <button type="button" className="button" onClick={handleLoadSample} disabled={isLoading}>
               Load Sample
             </button>
           </div>
 
-          <textarea
-            className="textarea"
-            value={jsonInput}
-            onChange={handleJsonInputChange}
-            readOnly={isLoading}
-            placeholder="Paste your JSON here..."
-          />
+          {tableSource && (
+            <TablePanel
+              table={tableSource}
+              jsonColumn={columnName}
+              rowIndex={tableRowIndex}
+              isLoading={isLoading}
+              onColumnChange={handleTableColumnChange}
+              onSelectRow={handleSelectTableRow}
+              onMergeRows={handleMergeTableRows}
+              onClose={handleCloseTable}
+            />
+          )}
+
+          <div className="textarea-wrap">
+            {errorLine && (
+              <div ref={textareaBackdropRef} className="textarea textarea-backdrop" aria-hidden="true">
+                {errorLine.before}
+                <mark>{errorLine.line || " "}</mark>
+              </div>
+            )}
+            <textarea
+              ref={textareaRef}
+              className={errorLine ? "textarea has-error-line" : "textarea"}
+              value={jsonInput}
+              onChange={handleJsonInputChange}
+              onScroll={handleTextareaScroll}
+              readOnly={isLoading}
+              aria-invalid={inputError ? true : undefined}
+              placeholder={
+                loadedFileLabel
+                  ? `Loaded from ${loadedFileLabel}; too large to show here. Paste JSON to replace it...`
+                  : inputMode === "records"
+                  ? "Paste JSON Lines (one record per line) or a JSON array of records..."
+                  : "Paste your JSON here..."
+              }
+            />
+          </div>
+
+          {repairNotice && (
+            <div className="repair-notice" role="status">
+              <span>Parsed leniently: {repairNotice.repairs.join("; ")}.</span>
+              {repairNotice.strictText !== null && (
+                <button type="button" className="copy-btn" onClick={handleRewriteStrict}>
+                  Rewrite as Strict JSON
+                </button>
+              )}
+              <button type="button" className="copy-btn" onClick={() => setRepairNotice(null)}>
+                Dismiss
+              </button>
+            </div>
+          )}
 
           <div className="search-row">
-            <input
-              type="text"
-              className="search-input"
-              placeholder="Search in JSON structure..."
-              value={searchTerm}
-              onChange={handleSearchChange}
+            <select
+              className="mode-select"
+              value={inputMode}
+              onChange={handleInputModeChange}
               disabled={isLoading}
-            />
+              aria-label="Input mode"
+            >
+              <option value="document">Single document</option>
+              <option value="records">Records (JSON Lines / array)</option>
+            </select>
+            <label className="search-option" title="Accept Python dict reprs, JSON5, comments and trailing commas">
+              <input
+                type="checkbox"
+                checked={lenientParsing}
+                onChange={handleLenientParsingChange}
+                disabled={isLoading}
+              />
+              Lenient (Python / JSON5)
+            </label>
             <button type="button" className="button" onClick={handleParse} disabled={isLoading}>
               Parse JSON
             </button>
@@ -540,26 +1773,205 @@ export default function Home() {
                 <button type="button" className="button button-secondary" onClick={handleExpandAll} disabled={isLoading}>
                   Expand All
                 </button>
+                {!isCompareOpen && (
+                  <button
+                    type="button"
+                    className="button button-secondary"
+                    onClick={() => setIsCompareOpen(true)}
+                    disabled={isLoading}
+                  >
+                    Compare
+                  </button>
+                )}
               </>
             )}
           </div>
+
+          {jsonData && isCompareOpen && (
+            <ComparePanel
+              counts={diffResult ? diffResult.counts : null}
+              onlyDifferences={onlyDifferences}
+              isComparing={isComparing}
+              onCompare={handleCompare}
+              onOnlyDifferencesChange={setOnlyDifferences}
+              onExit={handleExitCompare}
+            />
+          )}
+
+          {jsonData && (
+            <div className="search-row">
+              <input
+                type="text"
+                className="search-input"
+                placeholder="Search keys and values..."
+                value={searchTerm}
+                onChange={handleSearchChange}
+                onKeyDown={handleSearchKeyDown}
+                disabled={isLoading}
+                aria-label="Search"
+              />
+              <span className={`search-status${searchError ? " error" : ""}`} aria-live="polite">
+                {searchStatus}
+              </span>
+              <button
+                type="button"
+                className="button button-secondary"
+                onClick={() => handleStepSearch(-1)}
+                disabled={searchMatches.length === 0}
+                title="Previous match (Shift+Enter)"
+              >
+                Prev
+              </button>
+              <button
+                type="button"
+                className="button button-secondary"
+                onClick={() => handleStepSearch(1)}
+                disabled={searchMatches.length === 0}
+                title="Next match (Enter)"
+              >
+                Next
+              </button>
+              <label className="search-option">
+                <input
+                  type="checkbox"
+                  checked={searchOptions.regex}
+                  onChange={(event) => handleSearchOptionChange({ regex: event.target.checked })}
+                />
+                Regex
+              </label>
+              <label className="search-option">
+                <input
+                  type="checkbox"
+                  checked={searchOptions.caseSensitive}
+                  onChange={(event) => handleSearchOptionChange({ caseSensitive: event.target.checked })}
+                />
+                Match case
+              </label>
+              <select
+                className="mode-select"
+                value={searchOptions.scope}
+                onChange={(event) => handleSearchOptionChange({ scope: event.target.value as SearchScope })}
+                aria-label="Search scope"
+              >
+                <option value="all">Keys and values</option>
+                <option value="keys">Keys only</option>
+                <option value="values">Values only</option>
+              </select>
+            </div>
+          )}
+
+          {jsonData && (
+            <div className="search-row query-row">
+              <select
+                className="mode-select"
+                value={querySyntax}
+                onChange={handleQuerySyntaxChange}
+                disabled={isLoading}
+                aria-label="Query syntax"
+              >
+                <option value="jsonpath">JSONPath</option>
+                <option value="jmespath">JMESPath</option>
+              </select>
+              <input
+                type="text"
+                className="search-input query-input"
+                placeholder={QUERY_PLACEHOLDER[querySyntax]}
+                value={queryText}
+                onChange={handleQueryTextChange}
+                onKeyDown={handleQueryKeyDown}
+                disabled={isLoading}
+                aria-label="Query"
+              />
+              <button type="button" className="button" onClick={handleRunQuery} disabled={isLoading}>
+                Run Query
+              </button>
+            </div>
+          )}
+
+          {queryMatches && (
+            <div className="query-results">
+              <div className="query-results-header">
+                <span>
+                  {queryMatches.length} match{queryMatches.length === 1 ? "" : "es"}
+                </span>
+                <button
+                  type="button"
+                  className="copy-btn"
+                  onClick={handleAddQueryResults}
+                  disabled={queryMatches.length === 0}
+                >
+                  Add All as Fields
+                </button>
+                <button type="button" className="copy-btn" onClick={() => setQueryMatches(null)}>
+                  Clear
+                </button>
+              </div>
+              {queryMatches.length > 0 && (
+                <ul className="query-result-list">
+                  {queryMatches.slice(0, MAX_QUERY_RESULTS_SHOWN).map((path) => (
+                    <li key={JSON.stringify(path)}>
+                      <button type="button" className="query-result" onClick={() => revealPath(path)}>
+                        {pathToDotNotation(path) || "(root)"}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {queryMatches.length > MAX_QUERY_RESULTS_SHOWN && (
+                <p className="query-results-more">
+                  &hellip; and {queryMatches.length - MAX_QUERY_RESULTS_SHOWN} more (all are expanded in the tree)
+                </p>
+              )}
+            </div>
+          )}
         </section>
 
         <section className="configuration">
           <div className="config-card">
             <h3>DataFrame Settings</h3>
-            <label htmlFor="column-name-input">Pandas JSON column</label>
-            <input
-              id="column-name-input"
-              type="text"
-              value={columnName}
-              onChange={handleColumnNameChange}
-              disabled={isLoading}
-              placeholder="e.g. templateVariables"
-            />
+            <label htmlFor="column-name-input">
+              {codeTarget === "sql" ? "SQL JSON column" : "Pandas JSON column"}
+            </label>
+            {tableSource ? (
+              <select
+                id="column-name-input"
+                className="mode-select"
+                value={columnName}
+                onChange={(event) => handleTableColumnChange(event.target.value)}
+                disabled={isLoading}
+              >
+                {tableSource.columns.map((column) => (
+                  <option key={column} value={column}>
+                    {column}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <input
+                id="column-name-input"
+                type="text"
+                value={columnName}
+                onChange={handleColumnNameChange}
+                disabled={isLoading}
+                placeholder="e.g. templateVariables"
+              />
+            )}
             <p style={{ fontSize: "0.8rem", color: "#607d8b" }}>
               The column that stores the JSON payload as a dict or JSON string.
             </p>
+            {codeTarget === "sql" && (
+              <>
+                <label htmlFor="table-name-input">SQL table</label>
+                <input
+                  id="table-name-input"
+                  type="text"
+                  value={tableName}
+                  onChange={handleTableNameChange}
+                  disabled={isLoading}
+                  placeholder="e.g. analytics.events"
+                />
+              </>
+            )}
           </div>
           <div className="config-card">
             <h3>Selection Behaviour</h3>
@@ -570,34 +1982,60 @@ export default function Home() {
             <p style={{ fontSize: "0.8rem", color: "#607d8b" }}>
               Click the same value again to remove it from the generated code.
             </p>
+            <p style={{ fontSize: "0.8rem", color: "#607d8b" }}>
+              Use <strong>Each Item [*]</strong> on an array to select a field from every element
+              instead of a single index.
+            </p>
           </div>
         </section>
 
         {message && (
           <div className={`message ${message.type}`}>
-            <span>{message.text}</span>
+            {message.parseError ? (
+              <div className="message-body">
+                <span>{message.text}</span>
+                <pre className="message-snippet">
+                  {message.parseError.snippet}
+                  {"\n"}
+                  {" ".repeat(message.parseError.snippetCaret)}^
+                </pre>
+                {message.parseError.hint && <span className="message-hint">Hint: {message.parseError.hint}</span>}
+              </div>
+            ) : (
+              <span>{message.text}</span>
+            )}
           </div>
         )}
 
         <section className="tree-shell">
           {jsonData ? (
-            <div className="json-tree" role="tree">
-              <MemoTreeNode
-                value={jsonData}
-                path={[]}
-                level={0}
-                expandedPaths={expandedPaths}
-                searchTerm={debouncedSearchTerm}
-                selectedValueKeys={selectedValueKeys}
-                maxChildrenToShow={maxChildrenToShow}
-                onToggleExpand={handleToggleExpand}
-                onSelectValue={handleSelectValue}
-                onSelectSubtree={handleSelectSubtree}
-                onCopyPath={handleCopyPath}
-                onCopyPython={handleCopyPythonPath}
-                onCopyJson={handleCopyJson}
-              />
-            </div>
+            <VirtualTree
+              rows={treeRows}
+              pageSize={childPageSize}
+              expandedPaths={expandedPaths}
+              searchMatchKeys={searchMatchKeys}
+              activeSearchKey={activeSearchKey}
+              selectedValueKeys={selectedValueKeys}
+              wildcardValueKeys={wildcardValueKeys}
+              wildcardPaths={wildcardPaths}
+              decodedPaths={decodedPaths}
+              pathStats={pathStats}
+              recordCount={recordCount}
+              dataRevision={dataRevision}
+              diffEntries={diffResult ? diffResult.entries : null}
+              scrollTarget={scrollTarget}
+              onToggleExpand={handleToggleExpand}
+              onToggleWildcard={handleToggleWildcard}
+              onToggleDecode={handleToggleDecode}
+              onSelectValue={handleSelectValue}
+              onSelectSubtree={handleSelectSubtree}
+              onAggregate={handleAggregateArray}
+              onCopyPath={handleCopyPath}
+              onCopyPython={handleCopyPythonPath}
+              onCopyJson={handleCopyJson}
+              onShowMore={handleShowMoreChildren}
+              onJumpToIndex={handleJumpToIndex}
+            />
           ) : (
             <div className="empty-state">
               Parse JSON to explore its structure and generate Python snippets.
@@ -608,7 +2046,65 @@ export default function Home() {
         <section className="code-panel">
           <div className="code-card">
             <div className="code-toolbar">
-              <h2>Generated Python</h2>
+              <h2>Generated {CODE_TARGET_LANGUAGE[codeTarget]}</h2>
+              <select
+                className="code-select"
+                value={codeTarget}
+                onChange={handleCodeTargetChange}
+                aria-label="Code target"
+              >
+                <option value="pandas">pandas</option>
+                <option value="polars">Polars</option>
+                <option value="pyspark">PySpark</option>
+                <option value="sql">SQL</option>
+                <option value="jq">jq</option>
+              </select>
+              {codeTarget === "jq" && (
+                <select
+                  className="code-select"
+                  value={jqFormat}
+                  onChange={handleJqFormatChange}
+                  aria-label="jq output format"
+                >
+                  <option value="json">JSON objects</option>
+                  <option value="csv">CSV (@csv)</option>
+                  <option value="tsv">TSV (@tsv)</option>
+                </select>
+              )}
+              {codeTarget === "sql" && (
+                <select
+                  className="code-select"
+                  value={sqlDialect}
+                  onChange={handleSqlDialectChange}
+                  aria-label="SQL dialect"
+                >
+                  <option value="postgres">PostgreSQL (JSONB)</option>
+                  <option value="duckdb">DuckDB</option>
+                  <option value="bigquery">BigQuery</option>
+                  <option value="snowflake">Snowflake</option>
+                </select>
+              )}
+              {codeTarget === "pandas" && (
+                <label className="code-option" title="Fall back to ast.literal_eval for Python dict reprs">
+                  <input
+                    type="checkbox"
+                    checked={literalEvalFallback}
+                    onChange={handleLiteralEvalFallbackChange}
+                  />
+                  literal_eval fallback
+                </label>
+              )}
+              {hasWildcardSelections && (
+                <select
+                  className="code-select"
+                  value={wildcardMode}
+                  onChange={handleWildcardModeChange}
+                  aria-label="Array wildcard output"
+                >
+                  <option value="explode">[*] → one row per element</option>
+                  <option value="list">[*] → list per row</option>
+                </select>
+              )}
               <button
                 type="button"
                 className="copy-btn"
@@ -618,26 +2114,299 @@ export default function Home() {
               >
                 Copy Code
               </button>
+              <button
+                type="button"
+                className="copy-btn"
+                onClick={() => void handleCopyShareLink()}
+                disabled={isLoading}
+              >
+                Copy Link
+              </button>
+              <label className="code-option" title="Inline the payload in the copied link when it fits">
+                <input
+                  type="checkbox"
+                  checked={includePayloadInLink}
+                  onChange={(event) => setIncludePayloadInLink(event.target.checked)}
+                />
+                with payload
+              </label>
+              <button
+                type="button"
+                className="copy-btn"
+                onClick={handleExportSpec}
+                disabled={!hasPythonCode || isLoading}
+              >
+                Export Spec
+              </button>
+              <input
+                id="spec-input"
+                type="file"
+                accept=".json,application/json"
+                className="visually-hidden"
+                onChange={handleImportSpec}
+                disabled={isLoading}
+              />
+              <label htmlFor="spec-input" className="copy-btn">
+                Import Spec
+              </label>
               {codeStatus && <span className="code-status">{codeStatus}</span>}
             </div>
 
+            {codeTarget === "pandas" && (
+              <div className="code-options-row">
+                <label className="code-option">
+                  Function
+                  <input
+                    type="text"
+                    className="code-input"
+                    value={pandasSettings.functionName}
+                    onChange={(event) => handlePandasSettingsChange({ functionName: event.target.value })}
+                    placeholder="transform"
+                    aria-label="Function name"
+                  />
+                </label>
+                <label className="code-option" title="Raise with the failing path instead of returning None">
+                  <input
+                    type="checkbox"
+                    checked={pandasSettings.strictMode}
+                    onChange={(event) => handlePandasSettingsChange({ strictMode: event.target.checked })}
+                  />
+                  Strict mode
+                </label>
+                <label className="code-option" title="Record JSON parse failures in a _parse_error column">
+                  <input
+                    type="checkbox"
+                    checked={pandasSettings.parseErrorColumn}
+                    onChange={(event) => handlePandasSettingsChange({ parseErrorColumn: event.target.checked })}
+                  />
+                  _parse_error column
+                </label>
+                <select
+                  className="code-select"
+                  value={pandasSettings.returnMode}
+                  onChange={(event) => handlePandasSettingsChange({ returnMode: event.target.value as ReturnMode })}
+                  aria-label="Returned frame"
+                >
+                  <option value="join">Join onto df</option>
+                  <option value="extracted">Extracted columns only</option>
+                </select>
+                <label className="code-option">
+                  <input
+                    type="checkbox"
+                    checked={pandasSettings.dropSourceColumn}
+                    onChange={(event) => handlePandasSettingsChange({ dropSourceColumn: event.target.checked })}
+                    disabled={pandasSettings.returnMode === "extracted"}
+                  />
+                  Drop source column
+                </label>
+                <label className="code-option" title="Generate a pytest module built from the loaded payload">
+                  <input
+                    type="checkbox"
+                    checked={showPytest}
+                    onChange={(event) => setShowPytest(event.target.checked)}
+                  />
+                  pytest module
+                </label>
+              </div>
+            )}
+
             <div className={`selected-fields ${selectedEntries.length ? "" : "hidden"}`}>
-              {selectedEntries.map(([selectionKey, selection]) => (
-                <div key={selectionKey} className="selected-pill">
-                  <span>{selection.fieldName}</span>
-                  <button
-                    type="button"
-                    onClick={() => handleRemoveSelection(selectionKey)}
-                    aria-label={`Remove ${selection.fieldName}`}
+              {selectedEntries.map(([selectionKey, selection]) => {
+                const isGeneralized = hasWildcard(selection.rawPath);
+                const isMatched = hasPredicate(selection.rawPath);
+                const aggregate = isGeneralized ? selection.aggregate : undefined;
+                const aggregateValue = aggregateValues.get(selectionKey);
+                const hasDtype = !isGeneralized || aggregate !== undefined || wildcardMode === "explode";
+                const isMissing = missingSelectionKeys.has(selectionKey);
+                const pillClasses = ["selected-pill"];
+                if (isGeneralized) pillClasses.push("generalized");
+                if (isMissing) pillClasses.push("missing");
+                return (
+                  <div
+                    key={selectionKey}
+                    className={pillClasses.join(" ")}
+                    title={
+                      isMissing
+                        ? "Path not found in the loaded payload"
+                        : aggregate
+                          ? "Rolls up every element of the marked arrays into one value"
+                          : isGeneralized
+                            ? "Applies to every element of the marked arrays"
+                            : isMatched
+                              ? "Picks array elements by a sibling value"
+                              : "Pinned to concrete indices"
+                    }
                   >
-                    &times;
-                  </button>
-                </div>
-              ))}
+                    <span>{selection.fieldName}</span>
+                    <code className="pill-path">{pathToDotNotation(selection.rawPath)}</code>
+                    <span className="pill-mode">
+                      {aggregate ? "rollup" : isGeneralized ? "each" : isMatched ? "match" : "pinned"}
+                    </span>
+                    <PathStepEditor
+                      fieldName={selection.fieldName}
+                      path={selection.rawPath}
+                      originalPath={selectionKeyPath(selectionKey)}
+                      getSampleElement={(stepIndex, elementIndex) =>
+                        getSampleElement(selection.rawPath, stepIndex, elementIndex)
+                      }
+                      onChange={(rawPath) => handleUpdateSelection(selectionKey, { rawPath })}
+                    />
+                    {isGeneralized && (
+                      <select
+                        className="pill-select"
+                        value={aggregate?.kind ?? ""}
+                        onChange={(event) => {
+                          const kind = event.target.value as AggregateKind | "";
+                          handleUpdateSelection(
+                            selectionKey,
+                            kind
+                              ? { aggregate: { ...aggregate, kind }, dtype: aggregateDtype(kind) }
+                              : { aggregate: undefined, dtype: "object" }
+                          );
+                        }}
+                        aria-label={`Aggregate for ${selection.fieldName}`}
+                      >
+                        <option value="">all values</option>
+                        {AGGREGATE_OPTIONS.map((option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    {aggregate && (aggregate.kind === "join" || aggregate.kind === "any" || aggregate.kind === "all") && (
+                      <input
+                        type="text"
+                        className="pill-input"
+                        value={aggregate.argument ?? ""}
+                        onChange={(event) =>
+                          handleUpdateSelection(selectionKey, { aggregate: { ...aggregate, argument: event.target.value } })
+                        }
+                        placeholder={aggregate.kind === "join" ? "separator" : "value"}
+                        title={
+                          aggregate.kind === "join"
+                            ? "Separator between values (defaults to a comma and space)"
+                            : "JSON literal or plain text compared against every value"
+                        }
+                        aria-label={`Aggregate ${aggregate.kind === "join" ? "separator" : "value"} for ${selection.fieldName}`}
+                      />
+                    )}
+                    {aggregate &&
+                      isNumericAggregate(aggregate.kind) &&
+                      typeof selection.rawPath[selection.rawPath.length - 1] === "string" && (
+                        <input
+                          type="text"
+                          className="pill-input"
+                          value={aggregate.multiplyBy ?? ""}
+                          onChange={(event) =>
+                            handleUpdateSelection(selectionKey, {
+                              aggregate: { ...aggregate, multiplyBy: event.target.value },
+                            })
+                          }
+                          placeholder="× field"
+                          title="Multiply each value by this sibling field before aggregating (e.g. quantity)"
+                          aria-label={`Multiplier field for ${selection.fieldName}`}
+                        />
+                      )}
+                    {aggregate && aggregateValue !== undefined && (
+                      <span className="pill-value" title="Value for the first record">
+                        = {aggregateValue === null ? "null" : formatPreviewCell(aggregateValue)}
+                      </span>
+                    )}
+                    {hasDtype && (
+                      <select
+                        className="pill-select"
+                        value={selection.dtype}
+                        onChange={(event) =>
+                          handleUpdateSelection(selectionKey, { dtype: event.target.value as FieldDtype })
+                        }
+                        aria-label={`Target type for ${selection.fieldName}`}
+                      >
+                        {FIELD_DTYPE_OPTIONS.map((option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    {hasDtype && selection.dtype === "datetime" && (
+                      <input
+                        type="text"
+                        className="pill-input"
+                        value={selection.datetimeFormat ?? ""}
+                        onChange={(event) =>
+                          handleUpdateSelection(selectionKey, { datetimeFormat: event.target.value })
+                        }
+                        placeholder="format"
+                        aria-label={`Datetime format for ${selection.fieldName}`}
+                      />
+                    )}
+                    {hasDtype &&
+                      (selection.dtype === "datetime" ||
+                        selection.dtype === "epoch_s" ||
+                        selection.dtype === "epoch_ms") && (
+                      <input
+                        type="text"
+                        className="pill-input"
+                        value={selection.timezone ?? ""}
+                        onChange={(event) =>
+                          handleUpdateSelection(selectionKey, { timezone: event.target.value })
+                        }
+                        placeholder="timezone"
+                        aria-label={`Timezone for ${selection.fieldName}`}
+                      />
+                    )}
+                    {codeTarget === "pandas" && !aggregate && (
+                      <input
+                        type="text"
+                        className="pill-input"
+                        value={selection.defaultValue ?? ""}
+                        onChange={(event) =>
+                          handleUpdateSelection(selectionKey, { defaultValue: event.target.value })
+                        }
+                        placeholder="default"
+                        title="Value used when the path is missing or null (JSON literal or plain text)"
+                        aria-label={`Default value for ${selection.fieldName}`}
+                      />
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveSelection(selectionKey)}
+                      aria-label={`Remove ${selection.fieldName}`}
+                    >
+                      &times;
+                    </button>
+                  </div>
+                );
+              })}
             </div>
 
             <PythonCodePreview code={hasPythonCode ? pythonCode : ""} />
+
+            {pytestCode && (
+              <>
+                <div className="code-toolbar">
+                  <h2>{PYTEST_FILE_NAME}</h2>
+                  <button type="button" className="copy-btn" onClick={() => void handleCopyPytest()}>
+                    Copy Tests
+                  </button>
+                  <button type="button" className="copy-btn" onClick={handleDownloadPytest}>
+                    Download Tests
+                  </button>
+                </div>
+                <PythonCodePreview code={pytestCode} />
+              </>
+            )}
           </div>
+          {previewTable && (
+            <PreviewTable
+              table={previewTable}
+              recordCount={sampleRecords ? sampleRecords.length : 1}
+              totalRecords={sampleRecords ? recordCount : 1}
+              onDownloadCsv={handleDownloadPreviewCsv}
+              onDownloadJson={handleDownloadPreviewJson}
+            />
+          )}
         </section>
       </div>
     </div>
@@ -4,17 +4,218 @@ export type JSONArray = JSONValue[];
 export type JsonType = "string" | "number" | "boolean" | "null" | "object" | "array";
 export type Path = (string | number)[];
 
+export type WildcardStep = { type: "wildcard" };
+export type DecodeStep = { type: "decode" };
+export type PredicateOperator = "equals" | "contains";
+export type PredicateMatch = "first" | "last";
+export type PredicateStep = {
+  type: "predicate";
+  field: string;
+  operator: PredicateOperator;
+  value: string;
+  match: PredicateMatch;
+};
+export type PathStep = string | number | WildcardStep | DecodeStep | PredicateStep;
+export type SelectionPath = PathStep[];
+
 export type Segment = {
   type: "key" | "array";
   key: string;
 };
 
+export type FieldDtype =
+  | "object"
+  | "int"
+  | "float"
+  | "bool"
+  | "string"
+  | "category"
+  | "datetime"
+  | "epoch_s"
+  | "epoch_ms";
+
+export type AggregateKind = "count" | "sum" | "mean" | "min" | "max" | "distinct" | "join" | "any" | "all";
+
+export interface FieldAggregate {
+  kind: AggregateKind;
+  argument?: string;
+  multiplyBy?: string;
+}
+
 export interface FieldSelection {
   fieldName: string;
-  rawPath: Path;
+  rawPath: SelectionPath;
+  dtype: FieldDtype;
+  datetimeFormat?: string;
+  timezone?: string;
+  defaultValue?: string;
+  aggregate?: FieldAggregate;
+}
+
+export type WildcardMode = "explode" | "list";
+
+export type CodeTarget = "pandas" | "polars" | "pyspark" | "sql" | "jq";
+
+export type JqFormat = "json" | "csv" | "tsv";
+
+export type SqlDialect = "postgres" | "duckdb" | "bigquery" | "snowflake";
+
+export type ReturnMode = "join" | "extracted";
+
+export interface PandasCodeSettings {
+  functionName: string;
+  strictMode: boolean;
+  parseErrorColumn: boolean;
+  dropSourceColumn: boolean;
+  returnMode: ReturnMode;
 }
 
+export interface PythonCodeOptions extends Partial<PandasCodeSettings> {
+  wildcardMode: WildcardMode;
+  literalEvalFallback?: boolean;
+}
+
+export interface OutputSettings extends PandasCodeSettings {
+  target: CodeTarget;
+  wildcardMode: WildcardMode;
+  sqlDialect: SqlDialect;
+  tableName: string;
+  jqFormat: JqFormat;
+  literalEvalFallback: boolean;
+}
+
+export interface ExtractionSpec {
+  version: number;
+  columnName: string;
+  output: OutputSettings;
+  fields: FieldSelection[];
+}
+
+export type InputMode = "document" | "records";
+
+export interface TableSource {
+  fileName: string;
+  columns: string[];
+  rows: string[][];
+}
+
+export type QuerySyntax = "jsonpath" | "jmespath";
+
+export type SearchScope = "all" | "keys" | "values";
+
+export interface SearchOptions {
+  regex: boolean;
+  caseSensitive: boolean;
+  scope: SearchScope;
+}
+
+export type ArrayMatchMode = "index" | "key";
+
+export interface DiffOptions {
+  arrayMatch: ArrayMatchMode;
+  matchKey: string;
+}
+
+export type DiffStatus = "added" | "removed" | "type-changed" | "value-changed" | "changed";
+
+export interface DiffEntry {
+  status: DiffStatus;
+  compared?: JSONValue;
+}
+
+export interface DiffResult {
+  merged: JSONValue;
+  entries: Map<string, DiffEntry>;
+  counts: Record<Exclude<DiffStatus, "changed">, number>;
+}
+
+export interface PathStats {
+  count: number;
+  types: JsonType[];
+}
+
+export type ParsePhase = "reading" | "parsing" | "indexing" | "loading";
+
+export interface ParseProgress {
+  phase: ParsePhase;
+  bytesRead: number;
+  totalBytes: number;
+  nodesIndexed: number;
+  totalNodes: number;
+}
+
+export type ParseSource = { kind: "text"; text: string } | { kind: "file"; file: File };
+
+export interface ParseWorkerRequest {
+  source: ParseSource;
+  mode: InputMode;
+  lenient: boolean;
+}
+
+export type HandoffEntry = [parentPath: Path, key: string | number, value: JSONValue];
+
+export type ParseWorkerResponse =
+  | { type: "progress"; progress: ParseProgress }
+  | {
+      type: "start";
+      raw: string | null;
+      root: JSONValue;
+      estimated: number;
+      totalNodes: number;
+      pathStats: [string, PathStats][] | null;
+      recordCount: number;
+      sampleRecords: JSONValue[] | null;
+      repairs: string[];
+      strictText: string | null;
+    }
+  | { type: "chunk"; entries: HandoffEntry[]; nodes: number }
+  | { type: "done" }
+  | { type: "error"; message: string; details: ParseErrorDetails | null };
+
+export interface ParseErrorDetails {
+  message: string;
+  position: number;
+  line: number;
+  column: number;
+  snippet: string;
+  snippetCaret: number;
+  hint: string | null;
+}
+
+export interface ParseResult {
+  raw: string | null;
+  data: JSONValue;
+  estimated: number;
+  pathStats: Map<string, PathStats> | null;
+  recordCount: number;
+  sampleRecords: JSONValue[] | null;
+  repairs: string[];
+  strictText: string | null;
+}
+
+export type TreeRow =
+  | {
+      kind: "node";
+      key: string;
+      path: Path;
+      label?: string | number;
+      value: JSONValue;
+      level: number;
+      position: number;
+      setSize: number;
+    }
+  | {
+      kind: "more";
+      key: string;
+      path: Path;
+      level: number;
+      shown: number;
+      total: number;
+      isArray: boolean;
+    };
+
 export interface MessageState {
   type: "success" | "error";
   text: string;
+  parseError?: ParseErrorDetails;
 }
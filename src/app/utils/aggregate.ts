@@ -0,0 +1,116 @@
+import type {
+  JSONValue,
+  JSONObject,
+  SelectionPath,
+  FieldSelection,
+  FieldAggregate,
+  AggregateKind,
+  FieldDtype,
+} from "../types";
+import { getJsonType, hasWildcard, parsePredicateValue, sanitizeFieldName } from "./json";
+
+export const AGGREGATE_OPTIONS: { value: AggregateKind; label: string }[] = [
+  { value: "count", label: "count" },
+  { value: "sum", label: "sum" },
+  { value: "mean", label: "mean" },
+  { value: "min", label: "min" },
+  { value: "max", label: "max" },
+  { value: "distinct", label: "distinct count" },
+  { value: "join", label: "join" },
+  { value: "any", label: "any equals" },
+  { value: "all", label: "all equal" },
+];
+
+export type AggregatedSelection = FieldSelection & { aggregate: FieldAggregate };
+
+export function isAggregated(selection: FieldSelection): selection is AggregatedSelection {
+  return selection.aggregate !== undefined && hasWildcard(selection.rawPath);
+}
+
+export function isNumericAggregate(kind: AggregateKind): boolean {
+  return kind === "sum" || kind === "mean" || kind === "min" || kind === "max";
+}
+
+export function aggregateDtype(kind: AggregateKind): FieldDtype {
+  if (kind === "count" || kind === "distinct") return "int";
+  if (kind === "join") return "string";
+  if (kind === "any" || kind === "all") return "bool";
+  return "float";
+}
+
+export function suggestAggregateKey(items: JSONValue, kind: AggregateKind): string | null {
+  if (kind === "count" || !Array.isArray(items)) return null;
+  const sample = items.find((item) => getJsonType(item) === "object") as JSONObject | undefined;
+  if (!sample) return null;
+  const match = Object.entries(sample).find(([, value]) =>
+    isNumericAggregate(kind) ? typeof value === "number" : value !== null && typeof value !== "object"
+  );
+  return match ? match[0] : null;
+}
+
+export function aggregateFieldName(path: SelectionPath, kind: AggregateKind): string {
+  const last = [...path].reverse().find((step): step is string => typeof step === "string");
+  return sanitizeFieldName(`${last ?? "values"}_${kind}`);
+}
+
+export function aggregateArgument(aggregate: FieldAggregate): JSONValue {
+  if (aggregate.kind === "join") return aggregate.argument ?? ", ";
+  return parsePredicateValue(aggregate.argument ?? "");
+}
+
+export function multiplierPath(path: SelectionPath, aggregate: FieldAggregate): SelectionPath | null {
+  const key = aggregate.multiplyBy?.trim();
+  if (!key || !isNumericAggregate(aggregate.kind) || typeof path[path.length - 1] !== "string") return null;
+  return [...path.slice(0, -1), key];
+}
+
+function isNumber(value: JSONValue): value is number {
+  return typeof value === "number";
+}
+
+function multiply(values: JSONValue[], multipliers: JSONValue[]): JSONValue[] {
+  return values.map((value, index) => {
+    const multiplier = multipliers[index];
+    return isNumber(value) && isNumber(multiplier) ? value * multiplier : null;
+  });
+}
+
+function stableStringify(value: JSONValue): string {
+  if (value === null || typeof value !== "object") return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  return `{${Object.keys(value)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+    .join(",")}}`;
+}
+
+export function applyAggregate(
+  values: JSONValue[],
+  aggregate: FieldAggregate,
+  multipliers: JSONValue[] | null = null
+): JSONValue {
+  const present = (multipliers ? multiply(values, multipliers) : values).filter((value) => value !== null);
+  const numbers = present.filter(isNumber);
+  switch (aggregate.kind) {
+    case "count":
+      return present.length;
+    case "sum":
+      return numbers.reduce((total, value) => total + value, 0);
+    case "mean":
+      return numbers.length ? numbers.reduce((total, value) => total + value, 0) / numbers.length : null;
+    case "min":
+      return numbers.length ? numbers.reduce((lowest, value) => (value < lowest ? value : lowest)) : null;
+    case "max":
+      return numbers.length ? numbers.reduce((highest, value) => (value > highest ? value : highest)) : null;
+    case "distinct":
+      return new Set(present.map(stableStringify)).size;
+    case "join":
+      return present
+        .map((value) => (typeof value === "string" ? value : JSON.stringify(value)))
+        .join(String(aggregateArgument(aggregate)));
+    case "any":
+      return present.some((value) => value === aggregateArgument(aggregate));
+    case "all":
+      return present.length > 0 && present.every((value) => value === aggregateArgument(aggregate));
+  }
+}
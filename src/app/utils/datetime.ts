@@ -0,0 +1,104 @@
+export interface DatetimePatternDialect {
+  tokens: Map<string, string>;
+  quote: (literal: string) => string;
+  needsQuote: RegExp;
+}
+
+export const SPARK_DATETIME_PATTERN: DatetimePatternDialect = {
+  tokens: new Map([
+    ["%Y", "yyyy"],
+    ["%y", "yy"],
+    ["%m", "MM"],
+    ["%d", "dd"],
+    ["%H", "HH"],
+    ["%I", "hh"],
+    ["%M", "mm"],
+    ["%S", "ss"],
+    ["%f", "SSSSSS"],
+    ["%p", "a"],
+    ["%b", "MMM"],
+    ["%B", "MMMM"],
+    ["%a", "EEE"],
+    ["%A", "EEEE"],
+    ["%j", "DDD"],
+    ["%z", "Z"],
+    ["%Z", "z"],
+    ["%T", "HH:mm:ss"],
+  ]),
+  quote: (literal) => `'${literal.replace(/'/g, "''")}'`,
+  needsQuote: /[A-Za-z']/,
+};
+
+export const POSTGRES_DATETIME_PATTERN: DatetimePatternDialect = {
+  tokens: new Map([
+    ["%Y", "YYYY"],
+    ["%y", "YY"],
+    ["%m", "MM"],
+    ["%d", "DD"],
+    ["%H", "HH24"],
+    ["%I", "HH12"],
+    ["%M", "MI"],
+    ["%S", "SS"],
+    ["%f", "US"],
+    ["%p", "AM"],
+    ["%b", "Mon"],
+    ["%B", "Month"],
+    ["%a", "Dy"],
+    ["%A", "Day"],
+    ["%j", "DDD"],
+    ["%z", "TZHTZM"],
+    ["%T", "HH24:MI:SS"],
+  ]),
+  quote: (literal) => `"${literal.replace(/"/g, '\\"')}"`,
+  needsQuote: /[A-Za-z"]/,
+};
+
+export const SNOWFLAKE_DATETIME_PATTERN: DatetimePatternDialect = {
+  tokens: new Map([
+    ["%Y", "YYYY"],
+    ["%y", "YY"],
+    ["%m", "MM"],
+    ["%d", "DD"],
+    ["%H", "HH24"],
+    ["%I", "HH12"],
+    ["%M", "MI"],
+    ["%S", "SS"],
+    ["%f", "FF6"],
+    ["%p", "AM"],
+    ["%b", "MON"],
+    ["%B", "MMMM"],
+    ["%a", "DY"],
+    ["%z", "TZHTZM"],
+    ["%T", "HH24:MI:SS"],
+  ]),
+  quote: (literal) => `"${literal.replace(/"/g, '""')}"`,
+  needsQuote: /[A-Za-z"]/,
+};
+
+export function translateStrptime(format: string, dialect: DatetimePatternDialect): string | null {
+  let pattern = "";
+  let literal = "";
+  const flushLiteral = () => {
+    pattern += dialect.needsQuote.test(literal) ? dialect.quote(literal) : literal;
+    literal = "";
+  };
+  for (let index = 0; index < format.length; index += 1) {
+    const char = format[index];
+    if (char !== "%") {
+      literal += char;
+      continue;
+    }
+    const directive = format.slice(index, index + 2);
+    index += 1;
+    if (directive === "%%") {
+      literal += "%";
+      continue;
+    }
+    const token = dialect.tokens.get(directive);
+    if (token === undefined) return null;
+    flushLiteral();
+    pattern += token;
+  }
+  flushLiteral();
+  return pattern;
+}
@@ -0,0 +1,164 @@
+import type {
+  JSONValue,
+  JSONObject,
+  JSONArray,
+  Path,
+  DiffEntry,
+  DiffOptions,
+  DiffResult,
+  DiffStatus,
+} from "../types";
+import { getJsonType } from "./json";
+
+type MatchKey = string | number | boolean | null;
+
+function markSubtree(
+  value: JSONValue,
+  path: Path,
+  status: "added" | "removed",
+  entries: Map<string, DiffEntry>
+): void {
+  const stack: { value: JSONValue; path: Path }[] = [{ value, path }];
+  while (stack.length > 0) {
+    const current = stack.pop() as { value: JSONValue; path: Path };
+    entries.set(JSON.stringify(current.path), { status });
+    const type = getJsonType(current.value);
+    if (type === "array") {
+      (current.value as JSONArray).forEach((child, index) => {
+        stack.push({ value: child, path: [...current.path, index] });
+      });
+    } else if (type === "object") {
+      Object.entries(current.value as JSONObject).forEach(([key, child]) => {
+        stack.push({ value: child, path: [...current.path, key] });
+      });
+    }
+  }
+}
+
+function readMatchKey(value: JSONValue, matchKey: string): MatchKey | undefined {
+  if (getJsonType(value) !== "object") return undefined;
+  const object = value as JSONObject;
+  if (!Object.prototype.hasOwnProperty.call(object, matchKey)) return undefined;
+  const key = object[matchKey];
+  return key !== null && typeof key === "object" ? undefined : key;
+}
+
+function canMatchByKey(left: JSONArray, right: JSONArray, matchKey: string): boolean {
+  if (left.length === 0 && right.length === 0) return false;
+  return [...left, ...right].every((item) => readMatchKey(item, matchKey) !== undefined);
+}
+
+export function diffJson(base: JSONValue, compared: JSONValue, options: DiffOptions): DiffResult {
+  const entries = new Map<string, DiffEntry>();
+  const counts: DiffResult["counts"] = { added: 0, removed: 0, "type-changed": 0, "value-changed": 0 };
+
+  const record = (path: Path, status: Exclude<DiffStatus, "changed">, compared: JSONValue) => {
+    counts[status] += 1;
+    entries.set(JSON.stringify(path), { status, compared });
+  };
+
+  const addSubtree = (value: JSONValue, path: Path, status: "added" | "removed") => {
+    counts[status] += 1;
+    markSubtree(value, path, status, entries);
+  };
+
+  const compare = (before: JSONValue, after: JSONValue, path: Path): { merged: JSONValue; changed: boolean } => {
+    const beforeType = getJsonType(before);
+    const afterType = getJsonType(after);
+
+    if (beforeType !== afterType) {
+      record(path, "type-changed", after);
+      return { merged: before, changed: true };
+    }
+
+    if (afterType === "object") {
+      const beforeObject = before as JSONObject;
+      const afterObject = after as JSONObject;
+      const merged: JSONObject = {};
+      let changed = false;
+      Object.entries(beforeObject).forEach(([key, child]) => {
+        if (Object.prototype.hasOwnProperty.call(afterObject, key)) {
+          const result = compare(child, afterObject[key], [...path, key]);
+          merged[key] = result.merged;
+          changed = changed || result.changed;
+        } else {
+          merged[key] = child;
+          addSubtree(child, [...path, key], "removed");
+          changed = true;
+        }
+      });
+      Object.entries(afterObject).forEach(([key, child]) => {
+        if (Object.prototype.hasOwnProperty.call(beforeObject, key)) return;
+        merged[key] = child;
+        addSubtree(child, [...path, key], "added");
+        changed = true;
+      });
+      if (changed) entries.set(JSON.stringify(path), { status: "changed" });
+      return { merged: changed ? merged : before, changed };
+    }
+
+    if (afterType === "array") {
+      const beforeArray = before as JSONArray;
+      const afterArray = after as JSONArray;
+      const merged: JSONArray = [];
+      let changed = false;
+
+      if (options.arrayMatch === "key" && canMatchByKey(beforeArray, afterArray, options.matchKey)) {
+        const remaining = new Map<MatchKey, JSONValue[]>();
+        afterArray.forEach((item) => {
+          const key = readMatchKey(item, options.matchKey) as MatchKey;
+          remaining.set(key, [...(remaining.get(key) ?? []), item]);
+        });
+        beforeArray.forEach((item, index) => {
+          const key = readMatchKey(item, options.matchKey) as MatchKey;
+          const candidates = remaining.get(key);
+          if (candidates && candidates.length > 0) {
+            const result = compare(item, candidates.shift() as JSONValue, [...path, index]);
+            merged.push(result.merged);
+            changed = changed || result.changed;
+          } else {
+            merged.push(item);
+            addSubtree(item, [...path, index], "removed");
+            changed = true;
+          }
+        });
+        remaining.forEach((items) => {
+          items.forEach((item) => {
+            addSubtree(item, [...path, merged.length], "added");
+            merged.push(item);
+            changed = true;
+          });
+        });
+      } else {
+        const length = Math.max(beforeArray.length, afterArray.length);
+        for (let index = 0; index < length; index += 1) {
+          if (index >= beforeArray.length) {
+            merged.push(afterArray[index]);
+            addSubtree(afterArray[index], [...path, index], "added");
+            changed = true;
+          } else if (index >= afterArray.length) {
+            merged.push(beforeArray[index]);
+            addSubtree(beforeArray[index], [...path, index], "removed");
+            changed = true;
+          } else {
+            const result = compare(beforeArray[index], afterArray[index], [...path, index]);
+            merged.push(result.merged);
+            changed = changed || result.changed;
+          }
+        }
+      }
+
+      if (changed) entries.set(JSON.stringify(path), { status: "changed" });
+      return { merged: changed ? merged : before, changed };
+    }
+
+    if (before !== after) {
+      record(path, "value-changed", after);
+      return { merged: before, changed: true };
+    }
+    return { merged: before, changed: false };
+  };
+
+  const { merged } = compare(base, compared, []);
+  return { merged, entries, counts };
+}
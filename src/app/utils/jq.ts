@@ -0,0 +1,188 @@
+import type { SelectionPath, FieldSelection, PythonCodeOptions, JqFormat } from "../types";
+import { isWildcardStep, isDecodeStep, isPredicateStep, hasWildcard, hasDecode, parsePredicateValue } from "./json";
+import { aggregateArgument, isAggregated, multiplierPath } from "./aggregate";
+import type { AggregatedSelection } from "./aggregate";
+
+const JQ_IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const JQ_KEYWORDS = new Set([
+  "and", "or", "not", "if", "then", "elif", "else", "end", "as", "def", "reduce",
+  "foreach", "try", "catch", "label", "import", "include", "__loc__",
+]);
+
+function quoteJqKey(key: string): string {
+  return JQ_IDENTIFIER_PATTERN.test(key) && !JQ_KEYWORDS.has(key) ? key : JSON.stringify(key);
+}
+
+function buildJqPath(path: SelectionPath, base = ""): string {
+  const result = path.reduce<string>((accumulator, step) => {
+    if (isWildcardStep(step)) {
+      return `${accumulator || "."}[]?`;
+    }
+    if (isDecodeStep(step)) {
+      return `(${accumulator || "."} | decode)`;
+    }
+    if (isPredicateStep(step)) {
+      const candidate = `.${quoteJqKey(step.field)}`;
+      const condition =
+        step.operator === "contains"
+          ? `(${candidate} | strings | contains(${JSON.stringify(step.value)}))`
+          : `${candidate} == ${JSON.stringify(parsePredicateValue(step.value))}`;
+      return `[${accumulator || "."}[]? | select(type == "object" and has(${JSON.stringify(step.field)}) and ${condition})][${step.match === "first" ? 0 : -1}]`;
+    }
+    if (typeof step === "number") {
+      return `${accumulator || "."}[${step}]`;
+    }
+    return `${accumulator}.${quoteJqKey(step)}`;
+  }, base);
+  return result || ".";
+}
+
+function buildJqValue(selection: FieldSelection, expr: string, coerce: boolean): string {
+  if (!coerce) {
+    return expr;
+  }
+  switch (selection.dtype) {
+    case "int":
+    case "float":
+      return `(${expr} | tonumber? // null)`;
+    case "string":
+    case "category":
+      return `(${expr} | if . == null then null else tostring end)`;
+    case "epoch_s":
+      return `((${expr} | tonumber? // null) | if . == null then null else todate end)`;
+    case "epoch_ms":
+      return `((${expr} | tonumber? // null) | if . == null then null else ./1000 | floor | todate end)`;
+    default:
+      return expr;
+  }
+}
+
+function buildJqAggregate(selection: AggregatedSelection, base: string): string {
+  const path = selection.rawPath;
+  const { aggregate } = selection;
+  const multiplier = multiplierPath(path, aggregate);
+  const values = multiplier
+    ? `(${buildJqPath(path.slice(0, -1), base)} | [.${quoteJqKey(String(path[path.length - 1]))}?, .${quoteJqKey(
+        String(multiplier[multiplier.length - 1])
+      )}?] | if map(type) == ["number", "number"] then .[0] * .[1] else null end)`
+    : buildJqPath(path, base);
+  const argument = JSON.stringify(aggregateArgument(aggregate));
+  switch (aggregate.kind) {
+    case "count":
+      return `([${values} | select(. != null)] | length)`;
+    case "sum":
+      return `([${values} | numbers] | add // 0)`;
+    case "mean":
+      return `([${values} | numbers] | if length > 0 then add / length else null end)`;
+    case "min":
+    case "max":
+      return `([${values} | numbers] | ${aggregate.kind})`;
+    case "distinct":
+      return `([${values} | select(. != null)] | unique | length)`;
+    case "join":
+      return `([${values} | select(. != null) | if type == "string" then . else tojson end] | join(${argument}))`;
+    case "any":
+      return `any(${values}; . == ${argument})`;
+    case "all":
+      return `([${values} | select(. != null)] | length > 0 and all(.[]; . == ${argument}))`;
+  }
+}
+
+interface JqField {
+  selection: FieldSelection;
+  path: SelectionPath;
+}
+
+function buildJqBindings(
+  base: string,
+  fields: JqField[],
+  bindings: string[],
+  values: Map<FieldSelection, string>
+): void {
+  const groups = new Map<string, { prefix: SelectionPath; fields: JqField[] }>();
+  fields.forEach((field) => {
+    const split = field.path.findIndex(isWildcardStep);
+    if (split === -1) {
+      values.set(field.selection, buildJqValue(field.selection, buildJqPath(field.path, base), true));
+      return;
+    }
+    const prefix = field.path.slice(0, split);
+    const groupKey = JSON.stringify(prefix);
+    const group = groups.get(groupKey) ?? { prefix, fields: [] };
+    group.fields.push({ selection: field.selection, path: field.path.slice(split + 1) });
+    groups.set(groupKey, group);
+  });
+
+  groups.forEach((group) => {
+    const variable = `$e${bindings.length + 1}`;
+    bindings.push(`(${buildJqPath(group.prefix, base)} | each) as ${variable}`);
+    buildJqBindings(variable, group.fields, bindings, values);
+  });
+}
+
+function buildJqCode(
+  selections: FieldSelection[],
+  format: JqFormat,
+  options: PythonCodeOptions
+): string {
+  const usesDecode = selections.some((selection) => hasDecode(selection.rawPath));
+  const explode =
+    selections.some((selection) => hasWildcard(selection.rawPath) && !isAggregated(selection)) &&
+    options.wildcardMode === "explode";
+  const tabular = format !== "json";
+
+  const bindings: string[] = [];
+  const values = new Map<FieldSelection, string>();
+  selections.filter(isAggregated).forEach((selection) => {
+    values.set(selection, buildJqAggregate(selection, explode ? "$root" : ""));
+  });
+  if (explode) {
+    buildJqBindings(
+      "$root",
+      selections
+        .filter((selection) => !isAggregated(selection))
+        .map((selection) => ({ selection, path: selection.rawPath })),
+      bindings,
+      values
+    );
+  } else {
+    selections.forEach((selection) => {
+      if (isAggregated(selection)) return;
+      const listValued = hasWildcard(selection.rawPath);
+      const path = buildJqPath(selection.rawPath);
+      const value = listValued ? `[${path}]` : buildJqValue(selection, path, true);
+      values.set(selection, listValued && tabular ? `(${value} | tojson)` : value);
+    });
+  }
+
+  const orderedValues = selections.map((selection) => values.get(selection) ?? "null");
+  const output = tabular
+    ? `[${orderedValues.join(", ")}] | @${format}`
+    : `{${selections
+        .map((selection, index) => `${quoteJqKey(selection.fieldName)}: ${orderedValues[index]}`)
+        .join(", ")}}`;
+  const pipeline = explode ? [`. as $root`, ...bindings, output].join("\n| ") : output;
+  const header = `[${selections.map((selection) => JSON.stringify(selection.fieldName)).join(", ")}] | @${format}`;
+
+  return [
+    `# Extracts ${selections.length} field(s): ${selections
+      .map((selection) => selection.fieldName)
+      .join(", ")}.`,
+    `# Usage: jq ${tabular ? "-rn" : "-c"} -f extract.jq payload.json`,
+    ...(explode ? [`def each: if type == "array" and length > 0 then .[] else null end;`] : []),
+    ...(usesDecode ? [`def decode: if type == "string" then (try fromjson catch null) else . end;`] : []),
+    ...(tabular ? [`(${header}),`, `(inputs | ${pipeline})`] : [pipeline]),
+  ].join("\n");
+}
+
+export function generateJqCode(
+  selections: Map<string, FieldSelection>,
+  format: JqFormat,
+  options: PythonCodeOptions
+): string {
+  if (selections.size === 0) {
+    return "";
+  }
+  return buildJqCode(Array.from(selections.values()), format, options);
+}
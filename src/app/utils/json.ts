@@ -1,11 +1,127 @@
-import type { JSONValue, JSONObject, JSONArray, JsonType, Path, Segment, FieldSelection } from "../types";
+import type {
+  JSONValue,
+  JSONObject,
+  JSONArray,
+  JsonType,
+  Path,
+  PathStep,
+  SelectionPath,
+  WildcardStep,
+  DecodeStep,
+  PredicateStep,
+  Segment,
+  FieldSelection,
+  FieldDtype,
+  AggregateKind,
+  TreeRow,
+} from "../types";
 
 export const ROOT_PATH_KEY = "[]";
 export const ESTIMATE_CAP = 10000;
+export const MAX_INLINE_TEXT_BYTES = 5 * 1024 * 1024;
 export const LARGE_THRESHOLD = 2000;
 export const VERY_LARGE_THRESHOLD = 5000;
 export const DEFAULT_AUTO_EXPAND_DEPTH = 0;
 export const LARGE_AUTO_EXPAND_DEPTH = 0;
+export const WILDCARD: WildcardStep = { type: "wildcard" };
+export const DECODE: DecodeStep = { type: "decode" };
+export const MAX_EMBEDDED_JSON_LENGTH = 1000000;
+
+export function isWildcardStep(step: PathStep): step is WildcardStep {
+  return typeof step === "object" && step !== null && step.type === "wildcard";
+}
+
+export function isDecodeStep(step: PathStep): step is DecodeStep {
+  return typeof step === "object" && step !== null && step.type === "decode";
+}
+
+export function hasWildcard(path: SelectionPath): boolean {
+  return path.some(isWildcardStep);
+}
+
+export function hasDecode(path: SelectionPath): boolean {
+  return path.some(isDecodeStep);
+}
+
+export function isPredicateStep(step: PathStep): step is PredicateStep {
+  return typeof step === "object" && step !== null && step.type === "predicate";
+}
+
+export function hasPredicate(path: SelectionPath): boolean {
+  return path.some(isPredicateStep);
+}
+
+export function hasNegativeIndex(path: SelectionPath): boolean {
+  return path.some((step) => typeof step === "number" && step < 0);
+}
+
+export function isConcretePath(path: SelectionPath): path is Path {
+  return path.every((step) => typeof step === "string" || (typeof step === "number" && step >= 0));
+}
+
+export function parsePredicateValue(text: string): string | number | boolean | null {
+  try {
+    const parsed = JSON.parse(text) as JSONValue;
+    return parsed === null || typeof parsed !== "object" ? parsed : text;
+  } catch {
+    return text;
+  }
+}
+
+export function matchesPredicate(item: JSONValue, step: PredicateStep): boolean {
+  if (getJsonType(item) !== "object" || !Object.prototype.hasOwnProperty.call(item, step.field)) {
+    return false;
+  }
+  const candidate = (item as JSONObject)[step.field];
+  if (step.operator === "contains") {
+    return typeof candidate === "string" && candidate.includes(step.value);
+  }
+  return candidate === parsePredicateValue(step.value);
+}
+
+export function suggestPredicate(element: JSONValue | undefined, nextStep: PathStep | undefined): PredicateStep {
+  const entries =
+    element !== undefined && getJsonType(element) === "object" ? Object.entries(element as JSONObject) : [];
+  const sibling =
+    entries.find(([key, value]) => key !== nextStep && typeof value === "string") ??
+    entries.find(([key, value]) => key !== nextStep && value !== null && typeof value !== "object");
+  return {
+    type: "predicate",
+    field: sibling?.[0] ?? "",
+    operator: "equals",
+    value: sibling ? (typeof sibling[1] === "string" ? sibling[1] : JSON.stringify(sibling[1])) : "",
+    match: "first",
+  };
+}
+
+export function findPredicateIndex(items: JSONValue[], step: PredicateStep): number {
+  if (step.match === "last") {
+    for (let index = items.length - 1; index >= 0; index -= 1) {
+      if (matchesPredicate(items[index], step)) return index;
+    }
+    return -1;
+  }
+  return items.findIndex((item) => matchesPredicate(item, step));
+}
+
+export function parseEmbeddedJson(value: string): JSONObject | JSONArray | undefined {
+  if (value.length > MAX_EMBEDDED_JSON_LENGTH || !/^\s*[[{]/.test(value)) return undefined;
+  try {
+    const parsed = JSON.parse(value) as JSONValue;
+    return parsed !== null && typeof parsed === "object" ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function decodeStepValue(value: JSONValue): JSONValue | undefined {
+  if (typeof value !== "string") return value;
+  try {
+    return JSON.parse(value) as JSONValue;
+  } catch {
+    return undefined;
+  }
+}
 
 export function getJsonType(value: JSONValue): JsonType {
   if (value === null) return "null";
@@ -48,15 +164,66 @@ export function normalizePath(path: Path): Path {
   });
 }
 
-export function buildSegments(path: Path): Segment[] {
+export function toSelectionPath(
+  path: Path,
+  wildcardPaths: Set<string>,
+  decodedPaths: Set<string>
+): SelectionPath {
+  const result: SelectionPath = [];
+  path.forEach((segment, index) => {
+    const prefixKey = JSON.stringify(path.slice(0, index));
+    if (index > 0 && decodedPaths.has(prefixKey)) {
+      result.push(DECODE);
+    }
+    result.push(typeof segment === "number" && wildcardPaths.has(prefixKey) ? WILDCARD : segment);
+  });
+  if (path.length > 0 && decodedPaths.has(JSON.stringify(path))) {
+    result.push(DECODE);
+  }
+  return result;
+}
+
+export function copyContainer(value: JSONValue): JSONValue {
+  if (Array.isArray(value)) return [...value];
+  return getJsonType(value) === "object" ? { ...(value as JSONObject) } : value;
+}
+
+export function applyDecodedPaths(value: JSONValue, decodedPaths: Set<string>): JSONValue {
+  if (decodedPaths.size === 0) return value;
+  const paths = Array.from(decodedPaths, (key) => JSON.parse(key) as Path).sort(
+    (left, right) => left.length - right.length
+  );
+
+  const replaceAt = (current: JSONValue, path: Path, depth: number): JSONValue => {
+    if (depth === path.length) {
+      return typeof current === "string" ? parseEmbeddedJson(current) ?? current : current;
+    }
+    const step = path[depth];
+    if (Array.isArray(current) && typeof step === "number" && step < current.length) {
+      const copy = [...current];
+      copy[step] = replaceAt(current[step], path, depth + 1);
+      return copy;
+    }
+    if (getJsonType(current) === "object" && Object.prototype.hasOwnProperty.call(current, step)) {
+      const object = current as JSONObject;
+      return { ...object, [step]: replaceAt(object[step], path, depth + 1) };
+    }
+    return current;
+  };
+
+  return paths.reduce((current, path) => replaceAt(current, path, 0), value);
+}
+
+export function buildSegments(path: SelectionPath): Segment[] {
   const segments: Segment[] = [];
   for (let index = 0; index < path.length; index += 1) {
     const current = path[index];
-    if (typeof current === "number") {
+    if (typeof current !== "string") {
       continue;
     }
     const next = path[index + 1];
-    const nextIsIndex = typeof next === "number";
+    const nextIsIndex =
+      next !== undefined && (typeof next === "number" || isWildcardStep(next) || isPredicateStep(next));
     segments.push({
       type: nextIsIndex ? "array" : "key",
       key: current,
@@ -65,11 +232,12 @@ export function buildSegments(path: Path): Segment[] {
   return segments;
 }
 
-export function createSelectionKey(segments: Segment[], path: Path): string {
-  if (!segments.length) {
-    return JSON.stringify(path);
-  }
-  return segments.map((segment) => `${segment.type}:${segment.key}`).join(">");
+export function createSelectionKey(path: SelectionPath, aggregate?: AggregateKind): string {
+  return aggregate ? `${JSON.stringify(path)}:${aggregate}` : JSON.stringify(path);
+}
+
+export function selectionKeyPath(selectionKey: string): SelectionPath {
+  return JSON.parse(selectionKey.slice(0, selectionKey.lastIndexOf("]") + 1)) as SelectionPath;
 }
 
 export function sanitizeFieldName(name: string | undefined): string {
@@ -88,7 +256,7 @@ export function sanitizeFieldName(name: string | undefined): string {
   return cleaned;
 }
 
-export function generateFieldName(segments: Segment[], fallbackPath: Path): string {
+export function generateFieldName(segments: Segment[], fallbackPath: SelectionPath): string {
   for (let index = segments.length - 1; index >= 0; index -= 1) {
     const segment = segments[index];
     if (segment.type === "key" && segment.key) {
@@ -102,7 +270,28 @@ export function generateFieldName(segments: Segment[], fallbackPath: Path): stri
   if (typeof last === "number") {
     return sanitizeFieldName(`value_${last}`);
   }
-  return sanitizeFieldName((last as string | undefined) ?? "value");
+  if (last !== undefined && isWildcardStep(last)) {
+    return "values";
+  }
+  if (last !== undefined && isDecodeStep(last)) {
+    return "decoded";
+  }
+  return sanitizeFieldName(typeof last === "string" ? last : "value");
+}
+
+const ISO_DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+export function inferFieldDtype(value: JSONValue | undefined): FieldDtype {
+  if (value === undefined) return "object";
+  const type = getJsonType(value);
+  if (type === "number") {
+    return Number.isInteger(value) ? "int" : "float";
+  }
+  if (type === "boolean") return "bool";
+  if (type === "string") {
+    return ISO_DATETIME_PATTERN.test(value as string) ? "datetime" : "string";
+  }
+  return "object";
 }
 
 export function ensureUniqueFieldName(
@@ -124,8 +313,36 @@ export function ensureUniqueFieldName(
   return candidate;
 }
 
-export function pathToDotNotation(path: Path): string {
+export function getValueAtPath(value: JSONValue, path: Path): JSONValue | undefined {
+  let current: JSONValue | undefined = value;
+  for (const segment of path) {
+    if (current === undefined || current === null) return undefined;
+    if (typeof segment === "number") {
+      current = Array.isArray(current) ? current[segment] : undefined;
+    } else if (getJsonType(current) === "object") {
+      current = Object.prototype.hasOwnProperty.call(current, segment)
+        ? (current as JSONObject)[segment]
+        : undefined;
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+export function pathToDotNotation(path: SelectionPath): string {
   return path.reduce<string>((accumulator, segment) => {
+    if (isWildcardStep(segment)) {
+      return `${accumulator}[*]`;
+    }
+    if (isDecodeStep(segment)) {
+      return `${accumulator}[json]`;
+    }
+    if (isPredicateStep(segment)) {
+      const value = segment.operator === "contains" ? segment.value : parsePredicateValue(segment.value);
+      const operator = segment.operator === "contains" ? "*=" : "==";
+      return `${accumulator}[${segment.match} ${segment.field}${operator}${JSON.stringify(value)}]`;
+    }
     if (typeof segment === "number") {
       return `${accumulator}[${segment}]`;
     }
@@ -209,6 +426,111 @@ export function countExpandableNodes(value: JSONValue, cap: number): number {
   return count;
 }
 
+export function countNodes(value: JSONValue, cap: number): number {
+  let count = 0;
+  const stack: JSONValue[] = [value];
+  while (stack.length > 0 && count < cap) {
+    const current = stack.pop() as JSONValue;
+    count += 1;
+    if (current !== null && typeof current === "object") {
+      for (const child of Array.isArray(current) ? current : Object.values(current)) {
+        stack.push(child);
+      }
+    }
+  }
+  return count;
+}
+
+export function flattenTree(
+  value: JSONValue,
+  expandedPaths: Set<string>,
+  childLimits: Map<string, number>,
+  pageSize: number,
+  visibleKeys?: Set<string>
+): TreeRow[] {
+  const rows: TreeRow[] = [];
+  const walk = (
+    current: JSONValue,
+    path: Path,
+    label: string | number | undefined,
+    level: number,
+    position: number,
+    setSize: number
+  ): void => {
+    const pathKey = JSON.stringify(path);
+    rows.push({ kind: "node", key: pathKey, path, label, value: current, level, position, setSize });
+
+    const type = getJsonType(current);
+    if ((type !== "object" && type !== "array") || !expandedPaths.has(pathKey)) return;
+
+    const isArray = type === "array";
+    let children: [string | number, JSONValue][] = isArray
+      ? (current as JSONArray).map((child, index) => [index, child])
+      : Object.entries(current as JSONObject);
+    if (visibleKeys) {
+      children = children.filter(([key]) => visibleKeys.has(JSON.stringify([...path, key])));
+    }
+    const total = children.length;
+    const shown = Math.min(total, childLimits.get(pathKey) ?? pageSize);
+
+    for (let index = 0; index < shown; index += 1) {
+      const [key, child] = children[index];
+      walk(child, [...path, key], key, level + 1, index + 1, total);
+    }
+
+    if (shown < total) {
+      rows.push({ kind: "more", key: `${pathKey}:more`, path, level: level + 1, shown, total, isArray });
+    }
+  };
+  walk(value, [], undefined, 0, 1, 1);
+  return rows;
+}
+
+export function expandAncestors(expandedPaths: Set<string>, paths: Path[]): Set<string> {
+  const expanded = new Set(expandedPaths);
+  paths.forEach((path) => {
+    for (let depth = 0; depth < path.length; depth += 1) {
+      expanded.add(JSON.stringify(path.slice(0, depth)));
+    }
+  });
+  return expanded;
+}
+
+export function extendChildLimits(
+  value: JSONValue,
+  childLimits: Map<string, number>,
+  paths: Path[],
+  pageSize: number
+): Map<string, number> {
+  const limits = new Map(childLimits);
+  const keyPositions = new Map<string, Map<string, number>>();
+
+  paths.forEach((path) => {
+    let current: JSONValue | undefined = value;
+    for (let depth = 0; depth < path.length && current !== undefined; depth += 1) {
+      const parentKey = JSON.stringify(path.slice(0, depth));
+      const step = path[depth];
+      let position = 0;
+      if (typeof step === "number") {
+        position = step;
+      } else if (getJsonType(current) === "object") {
+        let positions = keyPositions.get(parentKey);
+        if (!positions) {
+          positions = new Map(Object.keys(current as JSONObject).map((key, index) => [key, index]));
+          keyPositions.set(parentKey, positions);
+        }
+        position = positions.get(step) ?? 0;
+      }
+      if (position >= (limits.get(parentKey) ?? pageSize)) {
+        limits.set(parentKey, (Math.floor(position / pageSize) + 1) * pageSize);
+      }
+      current = getValueAtPath(current, [step]);
+    }
+  });
+
+  return limits;
+}
+
 export function collectLeafPaths(value: JSONValue, basePath: Path): Path[] {
   const type = getJsonType(value);
   if (type === "object") {
@@ -227,3 +549,73 @@ export function collectLeafPaths(value: JSONValue, basePath: Path): Path[] {
   }
   return [basePath];
 }
+
+function walkSelectionPath(
+  value: JSONValue,
+  selectionPath: SelectionPath,
+  visit: (resolved: Path, value: JSONValue) => void
+): void {
+  const walk = (current: JSONValue, index: number, resolved: Path): void => {
+    if (index === selectionPath.length) {
+      visit(resolved, current);
+      return;
+    }
+    const step = selectionPath[index];
+    if (isWildcardStep(step)) {
+      if (Array.isArray(current)) {
+        current.forEach((child, childIndex) => walk(child, index + 1, [...resolved, childIndex]));
+      }
+      return;
+    }
+    if (isDecodeStep(step)) {
+      const decoded = decodeStepValue(current);
+      if (decoded !== undefined) walk(decoded, index + 1, resolved);
+      return;
+    }
+    if (isPredicateStep(step)) {
+      const matchIndex = Array.isArray(current) ? findPredicateIndex(current, step) : -1;
+      if (Array.isArray(current) && matchIndex !== -1) {
+        walk(current[matchIndex], index + 1, [...resolved, matchIndex]);
+      }
+      return;
+    }
+    if (typeof step === "number") {
+      const elementIndex = Array.isArray(current) && step < 0 ? current.length + step : step;
+      if (Array.isArray(current) && elementIndex >= 0 && elementIndex < current.length) {
+        walk(current[elementIndex], index + 1, [...resolved, elementIndex]);
+      }
+      return;
+    }
+    if (getJsonType(current) === "object" && Object.prototype.hasOwnProperty.call(current, step)) {
+      walk((current as JSONObject)[step], index + 1, [...resolved, step]);
+    }
+  };
+  walk(value, 0, []);
+}
+
+export function resolveSelectionPaths(value: JSONValue, selectionPath: SelectionPath): Path[] {
+  const results: Path[] = [];
+  walkSelectionPath(value, selectionPath, (resolved) => results.push(resolved));
+  return results;
+}
+
+export function resolveSelectionValues(value: JSONValue, selectionPath: SelectionPath): JSONValue[] {
+  const results: JSONValue[] = [];
+  walkSelectionPath(value, selectionPath, (_resolved, resolvedValue) => results.push(resolvedValue));
+  return results;
+}
+
+export function collectDecodedPaths(value: JSONValue, selectionPaths: SelectionPath[]): Set<string> {
+  const decoded = new Set<string>();
+  selectionPaths.forEach((selectionPath) => {
+    selectionPath.forEach((step, index) => {
+      if (!isDecodeStep(step)) return;
+      walkSelectionPath(value, selectionPath.slice(0, index), (resolved, resolvedValue) => {
+        if (typeof resolvedValue === "string" && parseEmbeddedJson(resolvedValue) !== undefined) {
+          decoded.add(JSON.stringify(resolved));
+        }
+      });
+    });
+  });
+  return decoded;
+}
@@ -0,0 +1,391 @@
+import type { JSONValue, JSONObject, JSONArray, ParseErrorDetails } from "../types";
+
+export interface LenientParseResult {
+  value: JSONValue;
+  repairs: string[];
+}
+
+export interface LenientParseOptions {
+  strict?: boolean;
+}
+
+export class JsonSyntaxError extends Error {
+  constructor(
+    message: string,
+    readonly position: number,
+    readonly hint: string | null = null
+  ) {
+    super(message);
+    this.name = "JsonSyntaxError";
+  }
+}
+
+const REPAIR_COMMENTS = "Removed comments";
+const REPAIR_TRAILING_COMMAS = "Removed trailing commas";
+const REPAIR_SINGLE_QUOTES = "Converted single-quoted strings";
+const REPAIR_PYTHON_LITERALS = "Converted Python True/False/None";
+const REPAIR_TUPLES = "Converted tuples to arrays";
+const REPAIR_UNQUOTED_KEYS = "Quoted unquoted keys";
+const REPAIR_NUMBER_KEYS = "Converted non-string keys to strings";
+const REPAIR_NON_FINITE = "Replaced NaN/Infinity with null";
+const REPAIR_NUMBERS = "Normalized JSON5 numbers";
+const REPAIR_STRING_PREFIXES = "Removed Python string prefixes";
+const REPAIR_ESCAPES = "Normalized JSON5 string escapes";
+
+const HINT_DOUBLE_QUOTES = "JSON strings and keys must use double quotes (\").";
+const HINT_MISSING_COMMA = "A comma is probably missing before this point.";
+const HINT_SMART_QUOTES = "Replace curly quotes (“ ” ‘ ’) with straight double quotes (\").";
+const HINT_NON_FINITE = "NaN and Infinity are not valid JSON; use null instead.";
+
+const IDENTIFIER_START = /[A-Za-z_$]/;
+const IDENTIFIER_PART = /[\w$]/;
+const SMART_QUOTES = /[“”„‘’]/;
+const VALUE_START = /["'{[(\d\-+.A-Za-z_$“”„‘’]/;
+const SNIPPET_RADIUS = 40;
+
+const KEYWORDS = new Map<string, { value: JSONValue; repair?: string }>([
+  ["true", { value: true }],
+  ["false", { value: false }],
+  ["null", { value: null }],
+  ["True", { value: true, repair: REPAIR_PYTHON_LITERALS }],
+  ["False", { value: false, repair: REPAIR_PYTHON_LITERALS }],
+  ["None", { value: null, repair: REPAIR_PYTHON_LITERALS }],
+  ["NaN", { value: null, repair: REPAIR_NON_FINITE }],
+  ["Infinity", { value: null, repair: REPAIR_NON_FINITE }],
+  ["nan", { value: null, repair: REPAIR_NON_FINITE }],
+  ["inf", { value: null, repair: REPAIR_NON_FINITE }],
+]);
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  '"': '"',
+  "'": "'",
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  v: "\v",
+  "0": "\0",
+};
+
+const STRICT_ESCAPES = new Set(['"', "\\", "/", "b", "f", "n", "r", "t"]);
+
+export function parseLenient(raw: string, options: LenientParseOptions = {}): LenientParseResult {
+  const strict = options.strict ?? false;
+  const offset = raw.charCodeAt(0) === 0xfeff ? 1 : 0;
+  const text = raw.slice(offset);
+  const repairs = new Set<string>();
+  let index = 0;
+
+  function fail(message: string, at = index, hint: string | null = null): never {
+    throw new JsonSyntaxError(message, at + offset, hint);
+  }
+
+  const repair = (name: string, message: string, hint: string, at = index) => {
+    if (strict) fail(message, at, hint);
+    repairs.add(name);
+  };
+
+  const failUnexpected = (char: string | undefined, expected?: string): never => {
+    if (char === undefined) {
+      return fail("Unexpected end of input", index, "Check for a missing closing bracket, brace or quote.");
+    }
+    if (SMART_QUOTES.test(char)) {
+      return fail(`Unexpected curly quote "${char}"`, index, HINT_SMART_QUOTES);
+    }
+    return fail(expected ? `Unexpected "${char}" where ${expected} was expected` : `Unexpected "${char}"`);
+  };
+
+  const skipIgnored = () => {
+    while (index < text.length) {
+      const char = text[index];
+      if (strict ? /[ \t\n\r]/.test(char) : /\s/.test(char)) {
+        index += 1;
+      } else if (char === "#" || text.startsWith("//", index)) {
+        repair(REPAIR_COMMENTS, "Comments are not allowed in JSON", "Remove the comment or enable lenient parsing.");
+        while (index < text.length && text[index] !== "\n") index += 1;
+      } else if (text.startsWith("/*", index)) {
+        repair(REPAIR_COMMENTS, "Comments are not allowed in JSON", "Remove the comment or enable lenient parsing.");
+        const end = text.indexOf("*/", index + 2);
+        if (end === -1) fail("Unterminated comment");
+        index = end + 2;
+      } else {
+        return;
+      }
+    }
+  };
+
+  const parseString = (): string => {
+    const quote = text[index];
+    if (quote === "'") repair(REPAIR_SINGLE_QUOTES, "Strings must use double quotes", HINT_DOUBLE_QUOTES);
+    const start = index;
+    index += 1;
+    let result = "";
+
+    while (index < text.length) {
+      const char = text[index];
+      if (char === quote) {
+        index += 1;
+        return result;
+      }
+      if (char === "\n") {
+        fail("Unterminated string", start, "Close the string with a quote; line breaks inside strings must be written as \\n.");
+      }
+      if (strict && char < " ") {
+        fail("Unescaped control character in string", index, "Write tabs and line breaks inside strings as \\t and \\n.");
+      }
+      if (char !== "\\") {
+        result += char;
+        index += 1;
+        continue;
+      }
+
+      const escape = text[index + 1];
+      if (strict && escape !== undefined && escape !== "u" && !STRICT_ESCAPES.has(escape)) {
+        fail(`Invalid escape "\\${escape}"`, index, 'Only \\" \\\\ \\/ \\b \\f \\n \\r \\t and \\uXXXX escapes are allowed.');
+      }
+      if (escape === "u") {
+        const hex = text.slice(index + 2, index + 6);
+        if (!/^[0-9a-fA-F]{4}$/.test(hex)) fail("Invalid unicode escape", index, "Unicode escapes need exactly four hex digits (\\u00e9).");
+        result += String.fromCharCode(parseInt(hex, 16));
+        index += 6;
+      } else if (escape === "x") {
+        const hex = text.slice(index + 2, index + 4);
+        if (!/^[0-9a-fA-F]{2}$/.test(hex)) fail("Invalid hex escape");
+        repairs.add(REPAIR_ESCAPES);
+        result += String.fromCharCode(parseInt(hex, 16));
+        index += 4;
+      } else if (escape === "\n" || escape === "\r") {
+        repairs.add(REPAIR_ESCAPES);
+        index += escape === "\r" && text[index + 2] === "\n" ? 3 : 2;
+      } else if (escape !== undefined && escape in SIMPLE_ESCAPES) {
+        if (escape === "'" || escape === "v" || escape === "0") repairs.add(REPAIR_ESCAPES);
+        result += SIMPLE_ESCAPES[escape];
+        index += 2;
+      } else if (escape !== undefined) {
+        repairs.add(REPAIR_ESCAPES);
+        result += escape;
+        index += 2;
+      } else {
+        index += 1;
+      }
+    }
+
+    return fail("Unterminated string", start, "Close the string with a matching quote.");
+  };
+
+  const parseNumber = (): number | null => {
+    const start = index;
+    const match = /^[+-]?(0[xX][0-9a-fA-F]+|(\d[\d_]*)?\.?\d*([eE][+-]?\d+)?)/.exec(text.slice(index));
+    const literal = match?.[0] ?? "";
+    const sign = literal.startsWith("-") ? -1 : 1;
+    const body = literal.replace(/^[+-]/, "");
+
+    if (!/\d/.test(body)) {
+      const keyword = text.slice(index + literal.length).match(/^(Infinity|NaN|inf|nan)/)?.[0];
+      if (!keyword) fail("Invalid number");
+      repair(REPAIR_NON_FINITE, `"${literal}${keyword}" is not valid JSON`, HINT_NON_FINITE);
+      index += literal.length + keyword.length;
+      return null;
+    }
+
+    if (!/^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/.test(literal)) {
+      repair(
+        REPAIR_NUMBERS,
+        `Invalid number "${literal}"`,
+        "JSON numbers can't have leading zeros, a leading + or dot, a trailing dot, hex digits or underscores."
+      );
+    }
+    index += literal.length;
+    const value = /^0[xX]/.test(body) ? sign * parseInt(body, 16) : Number(literal.replace(/_/g, ""));
+    if (Number.isNaN(value)) fail("Invalid number", start);
+    return value;
+  };
+
+  const parseIdentifier = (): string => {
+    const start = index;
+    while (index < text.length && IDENTIFIER_PART.test(text[index])) index += 1;
+    return text.slice(start, index);
+  };
+
+  const parseStringPrefix = (): string => {
+    repair(
+      REPAIR_STRING_PREFIXES,
+      `Unexpected string prefix "${text[index]}"`,
+      "Remove the Python string prefix before the quote."
+    );
+    index += 1;
+    return parseString();
+  };
+
+  const parseKey = (): string => {
+    const char = text[index];
+    if (char === '"' || char === "'") {
+      return parseString();
+    }
+    if (/[rubRUB]/.test(char) && (text[index + 1] === '"' || text[index + 1] === "'")) {
+      return parseStringPrefix();
+    }
+    if (IDENTIFIER_START.test(char)) {
+      const start = index;
+      const identifier = parseIdentifier();
+      const keyword = KEYWORDS.get(identifier);
+      const message = "Expected a double-quoted property name";
+      const hint = `Wrap the key in double quotes: "${identifier}".`;
+      if (keyword && keyword.repair === REPAIR_PYTHON_LITERALS) {
+        repair(REPAIR_NUMBER_KEYS, message, hint, start);
+        return JSON.stringify(keyword.value);
+      }
+      repair(REPAIR_UNQUOTED_KEYS, message, hint, start);
+      return identifier;
+    }
+    if (/[\d+\-.]/.test(char)) {
+      const start = index;
+      const key = String(parseNumber());
+      repair(REPAIR_NUMBER_KEYS, "Expected a double-quoted property name", `Wrap the key in double quotes: "${key}".`, start);
+      return key;
+    }
+    return failUnexpected(char, "a property name");
+  };
+
+  const parseValue = (): JSONValue => {
+    skipIgnored();
+    const char = text[index];
+
+    if (char === "{") {
+      index += 1;
+      const object: JSONObject = {};
+      for (;;) {
+        skipIgnored();
+        if (text[index] === "}") {
+          index += 1;
+          return object;
+        }
+        const key = parseKey();
+        skipIgnored();
+        if (text[index] !== ":") {
+          fail(`Expected ":" after property name "${key}"`, index, "Separate each key from its value with a colon.");
+        }
+        index += 1;
+        Object.defineProperty(object, key, { value: parseValue(), writable: true, enumerable: true, configurable: true });
+        skipIgnored();
+        if (text[index] === ",") {
+          const comma = index;
+          index += 1;
+          skipIgnored();
+          if (text[index] === "}") {
+            repair(REPAIR_TRAILING_COMMAS, "Trailing comma in object", "Remove the comma before the closing brace.", comma);
+          }
+        } else if (text[index] !== "}") {
+          if (index < text.length && VALUE_START.test(text[index])) {
+            fail('Expected "," or "}" after property value', index, HINT_MISSING_COMMA);
+          }
+          failUnexpected(text[index], '"," or "}"');
+        }
+      }
+    }
+
+    if (char === "[" || char === "(") {
+      const close = char === "[" ? "]" : ")";
+      if (char === "(") repair(REPAIR_TUPLES, 'Unexpected "("', "Use square brackets [ ] for arrays.");
+      index += 1;
+      const array: JSONArray = [];
+      for (;;) {
+        skipIgnored();
+        if (text[index] === close) {
+          index += 1;
+          return array;
+        }
+        array.push(parseValue());
+        skipIgnored();
+        if (text[index] === ",") {
+          const comma = index;
+          index += 1;
+          skipIgnored();
+          if (text[index] === close && close === "]") {
+            repair(REPAIR_TRAILING_COMMAS, "Trailing comma in array", "Remove the comma before the closing bracket.", comma);
+          }
+        } else if (text[index] !== close) {
+          const container = close === "]" ? "array" : "tuple";
+          if (index < text.length && VALUE_START.test(text[index])) {
+            fail(`Expected "," or "${close}" after ${container} element`, index, HINT_MISSING_COMMA);
+          }
+          failUnexpected(text[index], `"," or "${close}"`);
+        }
+      }
+    }
+
+    if (char === '"' || char === "'") {
+      return parseString();
+    }
+
+    if (char !== undefined && /[\d+\-.]/.test(char)) {
+      return parseNumber();
+    }
+
+    if (char !== undefined && IDENTIFIER_START.test(char)) {
+      if (/[rubRUB]/.test(char) && (text[index + 1] === '"' || text[index + 1] === "'")) {
+        return parseStringPrefix();
+      }
+      const start = index;
+      const identifier = parseIdentifier();
+      const keyword = KEYWORDS.get(identifier);
+      if (!keyword) {
+        fail(`Unexpected identifier "${identifier}"`, start, "Text values must be wrapped in double quotes.");
+      }
+      if (keyword.repair === REPAIR_PYTHON_LITERALS) {
+        repair(REPAIR_PYTHON_LITERALS, `Unexpected identifier "${identifier}"`, "Use lowercase true, false and null.", start);
+      } else if (keyword.repair) {
+        repair(keyword.repair, `"${identifier}" is not valid JSON`, HINT_NON_FINITE, start);
+      }
+      return keyword.value;
+    }
+
+    return failUnexpected(char, "a value");
+  };
+
+  const value = parseValue();
+  skipIgnored();
+  if (index < text.length) {
+    fail(
+      "Unexpected content after the end of the value",
+      index,
+      "Only one top-level value is allowed; use Records mode for JSON Lines."
+    );
+  }
+  return { value, repairs: Array.from(repairs) };
+}
+
+export function offsetSyntaxError(error: unknown, offset: number): unknown {
+  if (!(error instanceof JsonSyntaxError) || offset === 0) return error;
+  return new JsonSyntaxError(error.message, error.position + offset, error.hint);
+}
+
+export function describeSyntaxError(text: string, error: JsonSyntaxError): ParseErrorDetails {
+  const position = Math.min(error.position, text.length);
+  const lineStart = text.lastIndexOf("\n", position - 1) + 1;
+  const nextBreak = text.indexOf("\n", position);
+  const lineEnd = nextBreak === -1 ? text.length : nextBreak;
+  let line = 1;
+  for (let cursor = text.indexOf("\n"); cursor !== -1 && cursor < lineStart; cursor = text.indexOf("\n", cursor + 1)) {
+    line += 1;
+  }
+
+  const column = position - lineStart;
+  const snippetStart = Math.max(lineStart, position - SNIPPET_RADIUS);
+  const snippetEnd = Math.min(lineEnd, position + SNIPPET_RADIUS);
+  const prefix = snippetStart > lineStart ? "…" : "";
+  const suffix = snippetEnd < lineEnd ? "…" : "";
+
+  return {
+    message: error.message,
+    position,
+    line,
+    column: column + 1,
+    snippet: `${prefix}${text.slice(snippetStart, snippetEnd).replace(/\r$/, "").replace(/\t/g, " ")}${suffix}`,
+    snippetCaret: prefix.length + position - snippetStart,
+    hint: error.hint,
+  };
+}
@@ -0,0 +1,150 @@
+import type {
+  JSONValue,
+  JSONObject,
+  InputMode,
+  Path,
+  ParseErrorDetails,
+  ParseProgress,
+  ParseResult,
+  ParseSource,
+  ParseWorkerRequest,
+  ParseWorkerResponse,
+} from "../types";
+
+export class ParseTaskError extends Error {
+  constructor(
+    message: string,
+    readonly details: ParseErrorDetails | null
+  ) {
+    super(message);
+    this.name = "ParseTaskError";
+  }
+}
+
+const UPDATE_INTERVAL_MS = 250;
+
+export interface ParseTask {
+  ready: Promise<ParseResult | null>;
+  promise: Promise<ParseResult | null>;
+  cancel: () => void;
+}
+
+function insertAt(root: JSONValue, parentPath: Path, key: string | number, value: JSONValue): void {
+  let target = root as JSONObject;
+  for (const step of parentPath) {
+    target = target[step] as JSONObject;
+  }
+  Object.defineProperty(target, key, { value, writable: true, enumerable: true, configurable: true });
+}
+
+export function startParseTask(
+  source: ParseSource,
+  mode: InputMode,
+  lenient: boolean,
+  onProgress: (progress: ParseProgress) => void,
+  onUpdate: (root: JSONValue) => void = () => undefined
+): ParseTask {
+  const worker = new Worker(new URL("../workers/parse.worker.ts", import.meta.url), { type: "module" });
+  let cancel: () => void = () => undefined;
+  let resolveReady: (result: ParseResult | null) => void = () => undefined;
+  let rejectReady: (error: Error) => void = () => undefined;
+  const ready = new Promise<ParseResult | null>((resolve, reject) => {
+    resolveReady = resolve;
+    rejectReady = reject;
+  });
+  ready.catch(() => undefined);
+
+  const promise = new Promise<ParseResult | null>((resolve, reject) => {
+    let settled = false;
+    let result: ParseResult | null = null;
+    let lastProgress: ParseProgress | null = null;
+    let updateTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const flushUpdate = () => {
+      if (updateTimer === null) return;
+      clearTimeout(updateTimer);
+      updateTimer = null;
+      if (result) onUpdate(result.data);
+    };
+
+    const finish = (settle: () => void) => {
+      if (settled) return;
+      settled = true;
+      worker.terminate();
+      settle();
+    };
+
+    worker.onmessage = (event: MessageEvent<ParseWorkerResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case "progress":
+          lastProgress = message.progress;
+          onProgress(message.progress);
+          break;
+        case "start":
+          result = {
+            raw: message.raw,
+            data: message.root,
+            estimated: message.estimated,
+            pathStats: message.pathStats ? new Map(message.pathStats) : null,
+            recordCount: message.recordCount,
+            sampleRecords: message.sampleRecords,
+            repairs: message.repairs,
+            strictText: message.strictText,
+          };
+          resolveReady(result);
+          break;
+        case "chunk":
+          if (!result) break;
+          for (const [parentPath, key, value] of message.entries) {
+            insertAt(result.data, parentPath, key, value);
+          }
+          if (lastProgress) {
+            lastProgress = { ...lastProgress, nodesIndexed: lastProgress.nodesIndexed + message.nodes };
+            onProgress(lastProgress);
+          }
+          updateTimer ??= setTimeout(flushUpdate, UPDATE_INTERVAL_MS);
+          break;
+        case "done":
+          finish(() => {
+            flushUpdate();
+            if (result) {
+              resolve(result);
+            } else {
+              const error = new Error("Parser finished without a result.");
+              rejectReady(error);
+              reject(error);
+            }
+          });
+          break;
+        case "error":
+          finish(() => {
+            const error = new ParseTaskError(message.message, message.details);
+            rejectReady(error);
+            reject(error);
+          });
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      event.preventDefault();
+      finish(() => {
+        const error = new Error(event.message || "Parser worker failed.");
+        rejectReady(error);
+        reject(error);
+      });
+    };
+
+    cancel = () =>
+      finish(() => {
+        if (updateTimer !== null) clearTimeout(updateTimer);
+        resolveReady(null);
+        resolve(null);
+      });
+  });
+
+  const request: ParseWorkerRequest = { source, mode, lenient };
+  worker.postMessage(request);
+  return { ready, promise, cancel };
+}
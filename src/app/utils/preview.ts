@@ -0,0 +1,167 @@
+import type { JSONValue, JSONObject, SelectionPath, FieldSelection, WildcardMode } from "../types";
+import { getJsonType, isWildcardStep, isDecodeStep, isPredicateStep, hasWildcard, findPredicateIndex } from "./json";
+import { parseDefaultValue } from "./python";
+import { applyAggregate, isAggregated, multiplierPath } from "./aggregate";
+import type { AggregatedSelection } from "./aggregate";
+
+export const PREVIEW_RECORD_LIMIT = 200;
+
+export interface PreviewTable {
+  columns: string[];
+  rows: JSONValue[][];
+}
+
+function parseJson(value: JSONValue): JSONValue {
+  const type = getJsonType(value);
+  if (type === "object" || type === "array") return value;
+  if (typeof value === "string") {
+    try {
+      return JSON.parse(value) as JSONValue;
+    } catch {
+      return {};
+    }
+  }
+  return {};
+}
+
+function safeGet(value: JSONValue, path: SelectionPath, fallback: JSONValue = null): JSONValue {
+  let current = value;
+  for (const step of path) {
+    if (isDecodeStep(step)) {
+      if (typeof current !== "string") continue;
+      try {
+        current = JSON.parse(current) as JSONValue;
+      } catch {
+        return fallback;
+      }
+    } else if (typeof step === "number") {
+      if (!Array.isArray(current) || step < -current.length || step >= current.length) return fallback;
+      current = current[step < 0 ? current.length + step : step];
+    } else if (isPredicateStep(step)) {
+      const matchIndex = Array.isArray(current) ? findPredicateIndex(current, step) : -1;
+      if (!Array.isArray(current) || matchIndex === -1) return fallback;
+      current = current[matchIndex];
+    } else if (typeof step === "string") {
+      if (getJsonType(current) !== "object") return fallback;
+      const object = current as JSONObject;
+      current = Object.prototype.hasOwnProperty.call(object, step) ? object[step] : null;
+    } else {
+      return fallback;
+    }
+  }
+  return current ?? fallback;
+}
+
+function safeGetAll(value: JSONValue, path: SelectionPath, fallback: JSONValue = null): JSONValue[] {
+  const split = path.findIndex(isWildcardStep);
+  if (split === -1) return [safeGet(value, path, fallback)];
+  const items = safeGet(value, path.slice(0, split));
+  if (!Array.isArray(items)) return [];
+  return items.flatMap((item) => safeGetAll(item, path.slice(split + 1), fallback));
+}
+
+type PreviewRow = Map<string, JSONValue>;
+type PreviewField = [string, SelectionPath, JSONValue];
+
+function expandRows(current: JSONValue, fields: PreviewField[]): PreviewRow[] {
+  const row: PreviewRow = new Map();
+  const groups = new Map<string, { prefix: SelectionPath; fields: PreviewField[] }>();
+  fields.forEach(([name, path, fallback]) => {
+    const split = path.findIndex(isWildcardStep);
+    if (split === -1) {
+      row.set(name, safeGet(current, path, fallback));
+      return;
+    }
+    const prefix = path.slice(0, split);
+    const key = JSON.stringify(prefix);
+    const group = groups.get(key) ?? { prefix, fields: [] };
+    group.fields.push([name, path.slice(split + 1), fallback]);
+    groups.set(key, group);
+  });
+
+  let rows: PreviewRow[] = [row];
+  groups.forEach((group) => {
+    const items = safeGet(current, group.prefix);
+    let subRows: PreviewRow[] = [];
+    if (Array.isArray(items)) {
+      subRows = items.flatMap((item) => expandRows(item, group.fields));
+    }
+    if (subRows.length === 0) {
+      subRows = [new Map(group.fields.map(([name, , fallback]) => [name, fallback]))];
+    }
+    rows = rows.flatMap((left) => subRows.map((right) => new Map([...left, ...right])));
+  });
+  return rows;
+}
+
+function aggregateField(value: JSONValue, selection: AggregatedSelection): JSONValue {
+  const multiplier = multiplierPath(selection.rawPath, selection.aggregate);
+  return applyAggregate(
+    safeGetAll(value, selection.rawPath),
+    selection.aggregate,
+    multiplier ? safeGetAll(value, multiplier) : null
+  );
+}
+
+export function buildPreviewTable(
+  records: JSONValue[],
+  selections: FieldSelection[],
+  wildcardMode: WildcardMode
+): PreviewTable {
+  const columns = selections.map((selection) => selection.fieldName);
+  const explode =
+    wildcardMode === "explode" &&
+    selections.some((selection) => hasWildcard(selection.rawPath) && !isAggregated(selection));
+  const rows: JSONValue[][] = [];
+
+  const fallbacks = selections.map((selection) => parseDefaultValue(selection.defaultValue) ?? null);
+  const fields = selections
+    .map((selection, index): PreviewField => [selection.fieldName, selection.rawPath, fallbacks[index]])
+    .filter((_field, index) => !isAggregated(selections[index]));
+  const aggregated = selections.filter(isAggregated);
+
+  records.forEach((record) => {
+    const value = parseJson(record);
+    if (explode) {
+      const aggregates = new Map(aggregated.map((selection) => [selection.fieldName, aggregateField(value, selection)]));
+      expandRows(value, fields).forEach((row) => {
+        rows.push(columns.map((column) => row.get(column) ?? aggregates.get(column) ?? null));
+      });
+      return;
+    }
+    rows.push(
+      selections.map((selection, index) => {
+        if (isAggregated(selection)) return aggregateField(value, selection);
+        return hasWildcard(selection.rawPath)
+          ? safeGetAll(value, selection.rawPath, fallbacks[index])
+          : safeGet(value, selection.rawPath, fallbacks[index]);
+      })
+    );
+  });
+
+  return { columns, rows };
+}
+
+export function formatPreviewCell(value: JSONValue): string {
+  if (value === null) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function escapeCsvCell(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function previewToCsv(table: PreviewTable): string {
+  const lines = [table.columns, ...table.rows.map((row) => row.map(formatPreviewCell))].map((cells) =>
+    cells.map(escapeCsvCell).join(",")
+  );
+  return `${lines.join("\n")}\n`;
+}
+
+export function previewToJson(table: PreviewTable): string {
+  const records = table.rows.map((row) =>
+    Object.fromEntries(table.columns.map((column, index) => [column, row[index]]))
+  );
+  return `${JSON.stringify(records, null, 2)}\n`;
+}
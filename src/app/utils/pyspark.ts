@@ -0,0 +1,393 @@
+import type { JSONValue, JSONObject, SelectionPath, FieldSelection, PythonCodeOptions } from "../types";
+import {
+  getJsonType,
+  isWildcardStep,
+  isDecodeStep,
+  isPredicateStep,
+  hasWildcard,
+  parsePredicateValue,
+  resolveSelectionValues,
+} from "./json";
+import { escapeForPythonString, toPythonLiteral, trimPathForColumn, buildDocString } from "./python";
+import { aggregateArgument, isAggregated, multiplierPath } from "./aggregate";
+import type { AggregatedSelection } from "./aggregate";
+import { SPARK_DATETIME_PATTERN, translateStrptime } from "./datetime";
+
+type SparkSchemaNode =
+  | { kind: "struct"; fields: Map<string, SparkSchemaNode> }
+  | { kind: "array"; element: SparkSchemaNode | null }
+  | { kind: "decoded"; inner: SparkSchemaNode | null }
+  | { kind: "leaf"; sparkType: string };
+
+function inferSparkLeafType(values: JSONValue[]): string {
+  const sample = values.find((value) => value !== null);
+  if (sample === undefined) return "T.StringType()";
+  const type = getJsonType(sample);
+  if (type === "number") {
+    return values.every((value) => value === null || Number.isInteger(value))
+      ? "T.LongType()"
+      : "T.DoubleType()";
+  }
+  if (type === "boolean") return "T.BooleanType()";
+  return "T.StringType()";
+}
+
+function insertSchemaPath(
+  node: SparkSchemaNode | null,
+  path: SelectionPath,
+  leafType: string
+): SparkSchemaNode {
+  if (path.length === 0) {
+    return node ?? { kind: "leaf", sparkType: leafType };
+  }
+  const [step, ...rest] = path;
+  if (isDecodeStep(step)) {
+    const decoded = node && node.kind === "decoded" ? node : { kind: "decoded" as const, inner: null };
+    decoded.inner = insertSchemaPath(decoded.inner, rest, leafType);
+    return decoded;
+  }
+  if (typeof step === "string") {
+    const struct = node && node.kind === "struct" ? node : { kind: "struct" as const, fields: new Map() };
+    struct.fields.set(step, insertSchemaPath(struct.fields.get(step) ?? null, rest, leafType));
+    return struct;
+  }
+  const array = node && node.kind === "array" ? node : { kind: "array" as const, element: null };
+  if (isPredicateStep(step)) {
+    const value = step.operator === "contains" ? step.value : parsePredicateValue(step.value);
+    array.element = insertSchemaPath(array.element, [step.field], inferSparkLeafType([value]));
+  }
+  array.element = insertSchemaPath(array.element, rest, leafType);
+  return array;
+}
+
+function renderSparkType(node: SparkSchemaNode | null, indent: string): string {
+  if (!node || node.kind === "leaf") {
+    return node ? node.sparkType : "T.StringType()";
+  }
+  if (node.kind === "decoded") {
+    return "T.StringType()";
+  }
+  if (node.kind === "array") {
+    return `T.ArrayType(${renderSparkType(node.element, indent)})`;
+  }
+  const inner = `${indent}    `;
+  const fields = Array.from(node.fields.entries()).map(
+    ([name, child]) =>
+      `${inner}T.StructField("${escapeForPythonString(name)}", ${renderSparkType(child, inner)}, True),`
+  );
+  return [`T.StructType([`, ...fields, `${indent}])`].join("\n");
+}
+
+function schemaAt(node: SparkSchemaNode | null, path: SelectionPath): SparkSchemaNode | null {
+  return path.reduce<SparkSchemaNode | null>((current, step) => {
+    if (!current) return null;
+    if (isDecodeStep(step)) return current.kind === "decoded" ? current.inner : null;
+    if (typeof step === "string") return current.kind === "struct" ? current.fields.get(step) ?? null : null;
+    return current.kind === "array" ? current.element : null;
+  }, node);
+}
+
+function nameDecodedSchemas(node: SparkSchemaNode | null, names: Map<SparkSchemaNode, string>): void {
+  if (!node || node.kind === "leaf") return;
+  if (node.kind === "struct") {
+    node.fields.forEach((child) => nameDecodedSchemas(child, names));
+  } else if (node.kind === "array") {
+    nameDecodedSchemas(node.element, names);
+  } else {
+    names.set(node, `decoded_schema_${names.size + 1}`);
+    nameDecodedSchemas(node.inner, names);
+  }
+}
+
+function resolvePayloadRoot(
+  jsonData: JSONValue | null,
+  rawPath: SelectionPath,
+  columnName: string
+): JSONValue | null {
+  if (!jsonData) return null;
+  if (rawPath[0] === columnName && getJsonType(jsonData) === "object") {
+    return (jsonData as JSONObject)[columnName] ?? null;
+  }
+  return jsonData;
+}
+
+function buildSparkSchema(
+  selections: FieldSelection[],
+  columnName: string,
+  jsonData: JSONValue | null
+): SparkSchemaNode {
+  let schema: SparkSchemaNode = { kind: "struct", fields: new Map() };
+  selections.forEach((selection) => {
+    const path = trimPathForColumn(selection.rawPath, columnName);
+    const root = resolvePayloadRoot(jsonData, selection.rawPath, columnName);
+    const values = root === null ? [] : resolveSelectionValues(root, path);
+    schema = insertSchemaPath(schema, path, inferSparkLeafType(values));
+    const multiplier = selection.aggregate ? multiplierPath(path, selection.aggregate) : null;
+    if (multiplier) {
+      const multipliers = root === null ? [] : resolveSelectionValues(root, multiplier);
+      schema = insertSchemaPath(schema, multiplier, inferSparkLeafType(multipliers));
+    }
+  });
+  return schema;
+}
+
+interface SparkExprContext {
+  node: SparkSchemaNode | null;
+  decodedSchemas: Map<SparkSchemaNode, string>;
+}
+
+function buildSparkExpr(base: string, path: SelectionPath, context: SparkExprContext, depth = 0): string {
+  let expr = base;
+  for (let index = 0; index < path.length; index += 1) {
+    const step = path[index];
+    const node = schemaAt(context.node, path.slice(0, index));
+    if (isWildcardStep(step)) {
+      const rest = path.slice(index + 1);
+      const variable = `x${depth}`;
+      const element = node && node.kind === "array" ? node.element : null;
+      const inner = buildSparkExpr(variable, rest, { ...context, node: element }, depth + 1);
+      const transformed = `F.transform(${expr}, lambda ${variable}: ${inner})`;
+      return hasWildcard(rest) ? `F.flatten(${transformed})` : transformed;
+    }
+    if (isDecodeStep(step)) {
+      const schemaName = node && node.kind === "decoded" ? context.decodedSchemas.get(node) : undefined;
+      expr = `F.from_json(${expr}, ${schemaName ?? "T.StringType()"})`;
+      continue;
+    }
+    if (isPredicateStep(step)) {
+      const variable = `x${depth}`;
+      const candidate = `${variable}.getField("${escapeForPythonString(step.field)}")`;
+      const condition =
+        step.operator === "contains"
+          ? `${candidate}.contains(${toPythonLiteral(step.value)})`
+          : `${candidate} == F.lit(${toPythonLiteral(parsePredicateValue(step.value))})`;
+      expr = `F.element_at(F.filter(${expr}, lambda ${variable}: ${condition}), ${step.match === "first" ? 1 : -1})`;
+      continue;
+    }
+    if (typeof step === "number" && step < 0) {
+      expr = `F.element_at(${expr}, ${step})`;
+      continue;
+    }
+    expr +=
+      typeof step === "number"
+        ? `.getItem(${step})`
+        : `.getField("${escapeForPythonString(step)}")`;
+  }
+  return expr;
+}
+
+function buildSparkAggregateExpr(
+  base: string,
+  path: SelectionPath,
+  selection: AggregatedSelection,
+  context: SparkExprContext
+): string {
+  const { aggregate } = selection;
+  const multiplier = multiplierPath(path, aggregate);
+  const values = multiplier
+    ? `F.transform(${buildSparkExpr(base, path.slice(0, -1), context)}, lambda item: item.getField("${escapeForPythonString(
+        String(path[path.length - 1])
+      )}") * item.getField("${escapeForPythonString(String(multiplier[multiplier.length - 1]))}"))`
+    : buildSparkExpr(base, path, context);
+  const present = `F.filter(${values}, lambda v: v.isNotNull())`;
+  const total = `F.aggregate(${present}, F.lit(0).cast("double"), lambda acc, v: acc + v)`;
+  const argument = `F.lit(${toPythonLiteral(aggregateArgument(aggregate))})`;
+  switch (aggregate.kind) {
+    case "count":
+      return `F.size(${present})`;
+    case "sum":
+      return total;
+    case "mean":
+      return `(${total} / F.size(${present}))`;
+    case "min":
+      return `F.array_min(${values})`;
+    case "max":
+      return `F.array_max(${values})`;
+    case "distinct":
+      return `F.size(F.array_distinct(${present}))`;
+    case "join":
+      return `F.array_join(${values}.cast("array<string>"), ${toPythonLiteral(aggregateArgument(aggregate))})`;
+    case "any":
+      return `F.exists(${values}, lambda v: v == ${argument})`;
+    case "all":
+      return `(F.forall(${values}, lambda v: v == ${argument}) & (F.size(${present}) > 0))`;
+  }
+}
+
+function sparkDatetimePattern(selection: FieldSelection): string | null {
+  const format = selection.datetimeFormat?.trim();
+  return format ? translateStrptime(format, SPARK_DATETIME_PATTERN) : null;
+}
+
+function buildSparkFieldExpr(selection: FieldSelection, expr: string, coerce: boolean): string {
+  const alias = `.alias("${escapeForPythonString(selection.fieldName)}")`;
+  if (!coerce) {
+    return `${expr}${alias}`;
+  }
+  const timezone = selection.timezone?.trim();
+  const withTimezone = (timestamp: string) =>
+    timezone ? `F.from_utc_timestamp(${timestamp}, "${escapeForPythonString(timezone)}")` : timestamp;
+  switch (selection.dtype) {
+    case "int":
+      return `${expr}.cast("long")${alias}`;
+    case "float":
+      return `${expr}.cast("double")${alias}`;
+    case "bool":
+      return `${expr}.cast("boolean")${alias}`;
+    case "string":
+    case "category":
+      return `${expr}.cast("string")${alias}`;
+    case "datetime": {
+      const pattern = sparkDatetimePattern(selection);
+      const timestamp = pattern
+        ? `F.to_timestamp(${expr}, "${escapeForPythonString(pattern)}")`
+        : `F.to_timestamp(${expr})`;
+      return `${withTimezone(timestamp)}${alias}`;
+    }
+    case "epoch_s":
+      return `${withTimezone(`F.timestamp_seconds(${expr}.cast("long"))`)}${alias}`;
+    case "epoch_ms":
+      return `${withTimezone(`F.timestamp_millis(${expr}.cast("long"))`)}${alias}`;
+    default:
+      return `${expr}${alias}`;
+  }
+}
+
+interface SparkField {
+  selection: FieldSelection;
+  path: SelectionPath;
+}
+
+function buildSparkExplodePlan(
+  baseColumn: string,
+  context: SparkExprContext,
+  fields: SparkField[],
+  helperLines: string[],
+  expressions: string[]
+): void {
+  const groups = new Map<string, { prefix: SelectionPath; fields: SparkField[] }>();
+  fields.forEach((field) => {
+    const split = field.path.findIndex(isWildcardStep);
+    if (split === -1) {
+      expressions.push(
+        buildSparkFieldExpr(field.selection, buildSparkExpr(`F.col("${baseColumn}")`, field.path, context), true)
+      );
+      return;
+    }
+    const prefix = field.path.slice(0, split);
+    const groupKey = JSON.stringify(prefix);
+    const group = groups.get(groupKey) ?? { prefix, fields: [] };
+    group.fields.push({ selection: field.selection, path: field.path.slice(split + 1) });
+    groups.set(groupKey, group);
+  });
+
+  groups.forEach((group) => {
+    const helper = `_each_${helperLines.length + 1}`;
+    const arrayExpr = buildSparkExpr(`F.col("${baseColumn}")`, group.prefix, context);
+    const arrayNode = schemaAt(context.node, group.prefix);
+    const element = arrayNode && arrayNode.kind === "array" ? arrayNode.element : null;
+    helperLines.push(`    df = df.withColumn("${helper}", F.explode_outer(${arrayExpr}))`);
+    buildSparkExplodePlan(helper, { ...context, node: element }, group.fields, helperLines, expressions);
+  });
+}
+
+function buildPySparkCode(
+  selections: FieldSelection[],
+  columnName: string,
+  jsonData: JSONValue | null,
+  options: PythonCodeOptions
+): string {
+  const columnLiteral = escapeForPythonString(columnName);
+  const explode =
+    selections.some((selection) => hasWildcard(selection.rawPath) && !isAggregated(selection)) &&
+    options.wildcardMode === "explode";
+  const schemaNode = buildSparkSchema(selections, columnName, jsonData);
+  const schema = renderSparkType(schemaNode, "    ");
+  const docString = buildDocString(selections, columnName, explode);
+  const decodedSchemas = new Map<SparkSchemaNode, string>();
+  nameDecodedSchemas(schemaNode, decodedSchemas);
+  const decodedSchemaLines = Array.from(decodedSchemas.entries()).map(
+    ([node, name]) => `    ${name} = ${renderSparkType(node.kind === "decoded" ? node.inner : null, "    ")}`
+  );
+  const context: SparkExprContext = { node: schemaNode, decodedSchemas };
+
+  const aggregateExpr = (selection: AggregatedSelection) =>
+    buildSparkFieldExpr(
+      selection,
+      buildSparkAggregateExpr(`F.col("_payload")`, trimPathForColumn(selection.rawPath, columnName), selection, context),
+      true
+    );
+
+  const formatNotes = selections
+    .filter((selection) => selection.dtype === "datetime" && selection.datetimeFormat?.trim())
+    .filter((selection) => sparkDatetimePattern(selection) === null)
+    .map(
+      (selection) =>
+        `    # ${selection.fieldName}: ${JSON.stringify(selection.datetimeFormat?.trim())} has no Spark datetime pattern equivalent; using Spark's default parsing.`
+    );
+
+  const helperLines: string[] = [];
+  const expressions: string[] = [];
+  if (explode) {
+    expressions.push(...selections.filter(isAggregated).map(aggregateExpr));
+    buildSparkExplodePlan(
+      "_payload",
+      context,
+      selections
+        .filter((selection) => !isAggregated(selection))
+        .map((selection) => ({
+          selection,
+          path: trimPathForColumn(selection.rawPath, columnName),
+        })),
+      helperLines,
+      expressions
+    );
+  } else {
+    selections.forEach((selection) => {
+      if (isAggregated(selection)) {
+        expressions.push(aggregateExpr(selection));
+        return;
+      }
+      const path = trimPathForColumn(selection.rawPath, columnName);
+      expressions.push(
+        buildSparkFieldExpr(selection, buildSparkExpr(`F.col("_payload")`, path, context), !hasWildcard(path))
+      );
+    });
+  }
+
+  return [
+    `from pyspark.sql import functions as F`,
+    `from pyspark.sql import types as T`,
+    ``,
+    `def transform(df):`,
+    `    """${docString}"""`,
+    `    schema = ${schema}`,
+    ...decodedSchemaLines,
+    ``,
+    `    columns = df.columns`,
+    `    if isinstance(df.schema["${columnLiteral}"].dataType, T.StringType):`,
+    `        payload = F.from_json(F.col("${columnLiteral}"), schema)`,
+    `    else:`,
+    `        payload = F.col("${columnLiteral}")`,
+    ``,
+    `    df = df.withColumn("_payload", payload)`,
+    ...helperLines,
+    ...formatNotes,
+    `    return df.select(`,
+    `        *columns,`,
+    ...expressions.map((expression) => `        ${expression},`),
+    `    )`,
+  ].join("\n");
+}
+
+export function generatePySparkCode(
+  selections: Map<string, FieldSelection>,
+  columnName: string,
+  jsonData: JSONValue | null,
+  options: PythonCodeOptions
+): string {
+  if (selections.size === 0) {
+    return "";
+  }
+  return buildPySparkCode(Array.from(selections.values()), columnName, jsonData, options);
+}
@@ -0,0 +1,136 @@
+import type { JSONValue, JSONObject, FieldSelection, PythonCodeOptions } from "../types";
+import { getJsonType, hasWildcard } from "./json";
+import {
+  buildDtypeLines,
+  escapeForPythonString,
+  parseDefaultValue,
+  resolveFunctionName,
+  toPythonLiteral,
+  trimPathForColumn,
+} from "./python";
+import { buildPreviewTable } from "./preview";
+import { isAggregated } from "./aggregate";
+
+export const PYTEST_MODULE_NAME = "extraction";
+export const PYTEST_FILE_NAME = "test_extraction.py";
+
+const MALFORMED_JSON = "{not valid json";
+
+function resolveColumnValue(payload: JSONValue, selections: FieldSelection[], columnName: string): JSONValue {
+  const allTrimmed = selections.every((selection) => selection.rawPath[0] === columnName);
+  if (allTrimmed && getJsonType(payload) === "object" && columnName in (payload as JSONObject)) {
+    return (payload as JSONObject)[columnName];
+  }
+  return payload;
+}
+
+function buildRowsLiteral(name: string, columns: string[], rows: JSONValue[][]): string[] {
+  return [
+    `${name} = [`,
+    ...rows.map(
+      (row) =>
+        `    {${columns
+          .map((column, index) => `"${escapeForPythonString(column)}": ${toPythonLiteral(row[index])}`)
+          .join(", ")}},`
+    ),
+    `]`,
+  ];
+}
+
+export function generatePytestModule(
+  selections: Map<string, FieldSelection>,
+  columnName: string,
+  payload: JSONValue | null,
+  options: PythonCodeOptions
+): string {
+  if (selections.size === 0 || payload === null) {
+    return "";
+  }
+
+  const fields = Array.from(selections.values());
+  const trimmed = fields.map((field) => ({ ...field, rawPath: trimPathForColumn(field.rawPath, columnName) }));
+  const columnValue = resolveColumnValue(payload, fields, columnName);
+  const functionName = resolveFunctionName(options.functionName);
+  const strict = options.strictMode ?? false;
+  const parseErrorColumn = options.parseErrorColumn ?? false;
+  const explode =
+    options.wildcardMode === "explode" && fields.some((field) => hasWildcard(field.rawPath) && !isAggregated(field));
+
+  const expected = buildPreviewTable([columnValue], trimmed, options.wildcardMode);
+  const missing = buildPreviewTable([{}], trimmed, options.wildcardMode);
+  const malformedRows = parseErrorColumn ? [fields.map(() => null)] : missing.rows;
+  const missingRaises =
+    strict && fields.some((field) => hasWildcard(field.rawPath) || parseDefaultValue(field.defaultValue) === undefined);
+  const malformedRaises = strict && !parseErrorColumn;
+
+  const dtypeLines = buildDtypeLines(fields, !explode, "expected").filter((line) => line !== "");
+  const cases = [
+    `        pytest.param(PAYLOAD, EXPECTED${parseErrorColumn ? ", False" : ""}, id="dict"),`,
+    `        pytest.param(json.dumps(PAYLOAD), EXPECTED${parseErrorColumn ? ", False" : ""}, id="json-string"),`,
+    ...(missingRaises ? [] : [`        pytest.param({}, MISSING${parseErrorColumn ? ", False" : ""}, id="missing-paths"),`]),
+    ...(malformedRaises
+      ? []
+      : [`        pytest.param(MALFORMED_JSON, MALFORMED${parseErrorColumn ? ", True" : ""}, id="malformed-json"),`]),
+  ];
+  const raisingCases = [
+    ...(missingRaises ? [`        pytest.param({}, KeyError, id="missing-paths"),`] : []),
+    ...(malformedRaises ? [`        pytest.param(MALFORMED_JSON, ValueError, id="malformed-json"),`] : []),
+  ];
+
+  return [
+    `# Save the generated transform as ${PYTEST_MODULE_NAME}.py next to this file, then run: pytest ${PYTEST_FILE_NAME}`,
+    `import json`,
+    ``,
+    `import pandas as pd`,
+    `import pytest`,
+    ``,
+    `from ${PYTEST_MODULE_NAME} import ${functionName}`,
+    ``,
+    `COLUMN = "${escapeForPythonString(columnName)}"`,
+    `FIELDS = [${fields.map((field) => `"${escapeForPythonString(field.fieldName)}"`).join(", ")}]`,
+    `MALFORMED_JSON = "${MALFORMED_JSON}"`,
+    ``,
+    `PAYLOAD = ${toPythonLiteral(columnValue)}`,
+    ``,
+    ...buildRowsLiteral("EXPECTED", expected.columns, expected.rows),
+    ``,
+    ...(missingRaises ? [] : [...buildRowsLiteral("MISSING", missing.columns, missing.rows), ``]),
+    ...(malformedRaises ? [] : [...buildRowsLiteral("MALFORMED", missing.columns, malformedRows), ``]),
+    ``,
+    `def build_expected(rows):`,
+    `    expected = pd.DataFrame(rows, columns=FIELDS)`,
+    ...dtypeLines,
+    `    return expected`,
+    ``,
+    ``,
+    `@pytest.mark.parametrize(`,
+    `    "value, rows${parseErrorColumn ? ", has_parse_error" : ""}",`,
+    `    [`,
+    ...cases,
+    `    ],`,
+    `)`,
+    `def test_${functionName}(value, rows${parseErrorColumn ? ", has_parse_error" : ""}):`,
+    `    df = pd.DataFrame({COLUMN: [value]})`,
+    `    result = ${functionName}(df)`,
+    `    actual = result[FIELDS].reset_index(drop=True)`,
+    `    pd.testing.assert_frame_equal(actual, build_expected(rows), check_dtype=False)`,
+    ...(parseErrorColumn ? [`    assert result["_parse_error"].notna().all() == has_parse_error`] : []),
+    ...(raisingCases.length
+      ? [
+          ``,
+          ``,
+          `@pytest.mark.parametrize(`,
+          `    "value, error",`,
+          `    [`,
+          ...raisingCases,
+          `    ],`,
+          `)`,
+          `def test_${functionName}_raises(value, error):`,
+          `    df = pd.DataFrame({COLUMN: [value]})`,
+          `    with pytest.raises(error):`,
+          `        ${functionName}(df)`,
+        ]
+      : []),
+    ``,
+  ].join("\n");
+}
@@ -1,11 +1,45 @@
-import type { Path, FieldSelection } from "../types";
+import type {
+  JSONValue,
+  SelectionPath,
+  PredicateStep,
+  FieldSelection,
+  AggregateKind,
+  PythonCodeOptions,
+} from "../types";
+import {
+  isWildcardStep,
+  isDecodeStep,
+  isPredicateStep,
+  hasWildcard,
+  hasDecode,
+  hasPredicate,
+  hasNegativeIndex,
+  parsePredicateValue,
+} from "./json";
+import { aggregateArgument, isAggregated, isNumericAggregate, multiplierPath } from "./aggregate";
+import type { AggregatedSelection } from "./aggregate";
 
-function escapeForPythonString(value: string): string {
+export function escapeForPythonString(value: string): string {
   return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
 }
 
-function buildPythonPathLiteral(path: Path): string {
+function predicateValueLiteral(step: PredicateStep): string {
+  return toPythonLiteral(step.operator === "contains" ? step.value : parsePredicateValue(step.value));
+}
+
+function buildPythonPathLiteral(path: SelectionPath): string {
   const parts = path.map((segment) => {
+    if (isWildcardStep(segment)) {
+      return "ALL";
+    }
+    if (isDecodeStep(segment)) {
+      return "DECODE";
+    }
+    if (isPredicateStep(segment)) {
+      return `Where("${escapeForPythonString(segment.field)}", "${segment.operator}", ${predicateValueLiteral(
+        segment
+      )}, "${segment.match}")`;
+    }
     if (typeof segment === "number") {
       return segment.toString();
     }
@@ -14,7 +48,7 @@ function buildPythonPathLiteral(path: Path): string {
   return `[${parts.join(", ")}]`;
 }
 
-function trimPathForColumn(path: Path, columnName: string): Path {
+export function trimPathForColumn(path: SelectionPath, columnName: string): SelectionPath {
   if (
     path.length > 0 &&
     typeof path[0] === "string" &&
@@ -25,80 +59,772 @@ function trimPathForColumn(path: Path, columnName: string): Path {
   return path;
 }
 
-function buildSimplePythonCode(
-  selections: FieldSelection[],
-  columnName: string
-): string {
-  const columnLiteral = escapeForPythonString(columnName);
-  const seriesLines = selections.map((selection) => {
-    const fieldLiteral = escapeForPythonString(selection.fieldName);
-    const pathLiteral = buildPythonPathLiteral(
-      trimPathForColumn(selection.rawPath, columnName)
-    );
-    return `            "${fieldLiteral}": safe_get(obj, ${pathLiteral})`;
-  });
-  const docString = `Extracts ${selections.length} field(s): ${selections
-    .map((selection) => selection.fieldName)
-    .join(", ")} from JSON column "${columnName}".`;
+const PARSE_JSON_LINES = [
+  `    def parse_json(val):`,
+  `        if isinstance(val, (dict, list)):`,
+  `            return val`,
+  `        if pd.isna(val):`,
+  `            return {}`,
+  `        try:`,
+  `            return json.loads(val)`,
+  `        except Exception:`,
+  `            return {}`,
+];
+
+const PARSE_JSON_WITH_LITERAL_EVAL_LINES = [
+  `    def parse_json(val):`,
+  `        if isinstance(val, (dict, list)):`,
+  `            return val`,
+  `        if pd.isna(val):`,
+  `            return {}`,
+  `        try:`,
+  `            return json.loads(val)`,
+  `        except Exception:`,
+  `            pass`,
+  `        try:`,
+  `            parsed = ast.literal_eval(val)`,
+  `        except Exception:`,
+  `            return {}`,
+  `        return parsed if isinstance(parsed, (dict, list)) else {}`,
+];
+
+const RAISE_MISSING_PATH = `raise KeyError(f"Missing path {path!r} at step {step!r}")`;
+
+interface SafeGetFlags {
+  decode: boolean;
+  defaults: boolean;
+  strict: boolean;
+  predicates: boolean;
+  negativeIndices: boolean;
+}
+
+const MATCHES_WHERE_LINES = [
+  `    def matches_where(item, step):`,
+  `        if not isinstance(item, dict) or step.field not in item:`,
+  `            return False`,
+  `        if step.op == "contains":`,
+  `            return isinstance(item[step.field], str) and step.value in item[step.field]`,
+  `        return item[step.field] == step.value`,
+];
 
+function buildRaisingParseJsonLines(literalEval: boolean): string[] {
   return [
-    `import pandas as pd`,
-    ``,
-    `def transform(df):`,
-    `    """${docString}"""`,
-    `    import json`,
-    ``,
     `    def parse_json(val):`,
-    `        if isinstance(val, dict):`,
+    `        if isinstance(val, (dict, list)):`,
     `            return val`,
     `        if pd.isna(val):`,
     `            return {}`,
     `        try:`,
     `            return json.loads(val)`,
-    `        except Exception:`,
-    `            return {}`,
-    ``,
-    `    def safe_get(obj, path):`,
+    ...(literalEval
+      ? [
+          `        except Exception:`,
+          `            pass`,
+          `        try:`,
+          `            parsed = ast.literal_eval(val)`,
+          `        except Exception as exc:`,
+          `            raise ValueError(f"Invalid JSON: {exc}") from exc`,
+          `        if not isinstance(parsed, (dict, list)):`,
+          `            raise ValueError(f"Invalid JSON: {val!r}")`,
+          `        return parsed`,
+        ]
+      : [
+          `        except Exception as exc:`,
+          `            raise ValueError(f"Invalid JSON: {exc}") from exc`,
+        ]),
+  ];
+}
+
+function buildMissingLines({ defaults, strict }: SafeGetFlags, indent: string): string[] {
+  if (strict && defaults) {
+    return [`${indent}if default is not REQUIRED:`, `${indent}    return default`, `${indent}${RAISE_MISSING_PATH}`];
+  }
+  if (strict) return [`${indent}${RAISE_MISSING_PATH}`];
+  return [`${indent}return ${defaults ? "default" : "None"}`];
+}
+
+function defaultParam({ defaults, strict }: SafeGetFlags): string {
+  if (!defaults) return "";
+  return `, default=${strict ? "REQUIRED" : "None"}`;
+}
+
+function buildSafeGetLines(flags: SafeGetFlags): string[] {
+  const { decode, defaults, strict, predicates, negativeIndices } = flags;
+  let returnLine = `        return current`;
+  if (defaults) {
+    returnLine = strict
+      ? `        return default if current is None and default is not REQUIRED else current`
+      : `        return default if current is None else current`;
+  }
+  return [
+    `    def safe_get(obj, path${defaultParam(flags)}):`,
     `        current = obj`,
     `        for step in path:`,
-    `            if isinstance(step, int):`,
-    `                if isinstance(current, (list, tuple)) and 0 <= step < len(current):`,
+    ...(decode
+      ? [
+          `            if step is DECODE:`,
+          `                if isinstance(current, str):`,
+          `                    try:`,
+          `                        current = json.loads(current)`,
+          ...(strict
+            ? [
+                `                    except Exception as exc:`,
+                `                        raise ValueError(f"Invalid JSON at {path!r}: {exc}") from exc`,
+              ]
+            : [`                    except Exception:`, ...buildMissingLines(flags, "                        ")]),
+          `            elif isinstance(step, int):`,
+        ]
+      : [`            if isinstance(step, int):`]),
+    negativeIndices
+      ? `                if isinstance(current, (list, tuple)) and -len(current) <= step < len(current):`
+      : `                if isinstance(current, (list, tuple)) and 0 <= step < len(current):`,
     `                    current = current[step]`,
     `                else:`,
-    `                    return None`,
+    ...buildMissingLines(flags, "                    "),
+    ...(predicates
+      ? [
+          `            elif isinstance(step, Where):`,
+          `                matches = [item for item in current if matches_where(item, step)] if isinstance(current, (list, tuple)) else []`,
+          `                if matches:`,
+          `                    current = matches[0] if step.match == "first" else matches[-1]`,
+          `                else:`,
+          ...buildMissingLines(flags, "                    "),
+        ]
+      : []),
     `            else:`,
-    `                if isinstance(current, dict):`,
-    `                    current = current.get(step)`,
+    ...(strict
+      ? [`                if isinstance(current, dict) and step in current:`, `                    current = current[step]`]
+      : [`                if isinstance(current, dict):`, `                    current = current.get(step)`]),
     `                else:`,
-    `                    return None`,
-    `        return current`,
+    ...buildMissingLines(flags, "                    "),
+    returnLine,
+  ];
+}
+
+function buildSafeGetAllLines(flags: SafeGetFlags): string[] {
+  const forward = flags.defaults ? ", default" : "";
+  return [
+    `    def safe_get_all(obj, path${defaultParam(flags)}):`,
+    `        if ALL not in path:`,
+    `            return [safe_get(obj, path${forward})]`,
+    `        split = path.index(ALL)`,
+    `        items = safe_get(obj, path[:split])`,
+    `        if not isinstance(items, (list, tuple)):`,
+    flags.strict ? `            raise TypeError(f"Expected a list at {path[:split]!r}")` : `            return []`,
+    `        return [value for item in items for value in safe_get_all(item, path[split + 1:]${forward})]`,
+  ];
+}
+
+function buildExpandRowsLines(flags: SafeGetFlags): string[] {
+  const { defaults, strict } = flags;
+  const fieldTarget = defaults ? "name, path, default" : "name, path";
+  let emptyRow = `{name: None for name, _ in group}`;
+  if (defaults) {
+    emptyRow = strict
+      ? `{name: None if default is REQUIRED else default for name, _, default in group}`
+      : `{name: default for name, _, default in group}`;
+  }
+  return [
+    `    def expand_rows(current, fields):`,
+    `        row = {}`,
+    `        groups = {}`,
+    `        for ${fieldTarget} in fields:`,
+    `            if ALL in path:`,
+    `                split = path.index(ALL)`,
+    `                groups.setdefault(tuple(path[:split]), []).append((name, path[split + 1:]${defaults ? ", default" : ""}))`,
+    `            else:`,
+    `                row[name] = safe_get(current, path${defaults ? ", default" : ""})`,
+    `        rows = [row]`,
+    `        for prefix, group in groups.items():`,
+    `            items = safe_get(current, list(prefix))`,
+    `            sub_rows = []`,
+    ...(strict
+      ? [
+          `            if not isinstance(items, (list, tuple)):`,
+          `                raise TypeError(f"Expected a list at {list(prefix)!r}")`,
+          `            for item in items:`,
+          `                sub_rows.extend(expand_rows(item, group))`,
+        ]
+      : [
+          `            if isinstance(items, (list, tuple)):`,
+          `                for item in items:`,
+          `                    sub_rows.extend(expand_rows(item, group))`,
+        ]),
+    `            if not sub_rows:`,
+    `                sub_rows = [${emptyRow}]`,
+    `            rows = [{**left, **right} for left in rows for right in sub_rows]`,
+    `        return rows`,
+  ];
+}
+
+const AGGREGATE_BRANCHES: Record<AggregateKind, string[]> = {
+  count: [`        if op == "count":`, `            return len(present)`],
+  sum: [`        if op == "sum":`, `            return sum(numbers)`],
+  mean: [`        if op == "mean":`, `            return sum(numbers) / len(numbers) if numbers else None`],
+  min: [`        if op == "min":`, `            return min(numbers) if numbers else None`],
+  max: [`        if op == "max":`, `            return max(numbers) if numbers else None`],
+  distinct: [`        if op == "distinct":`, `            return len({json.dumps(value, sort_keys=True) for value in present})`],
+  join: [
+    `        if op == "join":`,
+    `            return arg.join(value if isinstance(value, str) else json.dumps(value, separators=(",", ":")) for value in present)`,
+  ],
+  any: [`        if op == "any":`, `            return any(value == arg for value in present)`],
+  all: [`        if op == "all":`, `            return bool(present) and all(value == arg for value in present)`],
+};
+
+function buildAggregateLines(selections: AggregatedSelection[]): string[] {
+  const kinds = new Set(selections.map((selection) => selection.aggregate.kind));
+  const usesNumbers = Array.from(kinds).some(isNumericAggregate);
+  const usesMultiply = selections.some((selection) => multiplierPath(selection.rawPath, selection.aggregate));
+  return [
+    ...(usesNumbers || usesMultiply
+      ? [`    def is_number(value):`, `        return isinstance(value, (int, float)) and not isinstance(value, bool)`, ``]
+      : []),
+    ...(usesMultiply
+      ? [
+          `    def multiply(values, multipliers):`,
+          `        return [`,
+          `            value * multiplier if is_number(value) and is_number(multiplier) else None`,
+          `            for value, multiplier in zip(values, multipliers)`,
+          `        ]`,
+          ``,
+        ]
+      : []),
+    `    def aggregate(values, op, arg=None):`,
+    `        present = [value for value in values if value is not None]`,
+    ...(usesNumbers ? [`        numbers = [value for value in present if is_number(value)]`] : []),
+    ...(Object.keys(AGGREGATE_BRANCHES) as AggregateKind[])
+      .filter((kind) => kinds.has(kind))
+      .flatMap((kind) => AGGREGATE_BRANCHES[kind]),
+    `        raise ValueError(f"Unknown aggregate {op!r}")`,
+  ];
+}
+
+function buildAggregateCall(selection: AggregatedSelection, columnName: string): string {
+  const path = trimPathForColumn(selection.rawPath, columnName);
+  const multiplier = multiplierPath(path, selection.aggregate);
+  const values = multiplier
+    ? `multiply(safe_get_all(obj, ${buildPythonPathLiteral(path)}), safe_get_all(obj, ${buildPythonPathLiteral(multiplier)}))`
+    : `safe_get_all(obj, ${buildPythonPathLiteral(path)})`;
+  const { kind } = selection.aggregate;
+  const argument =
+    kind === "join" || kind === "any" || kind === "all" ? `, ${toPythonLiteral(aggregateArgument(selection.aggregate))}` : "";
+  return `aggregate(${values}, "${kind}"${argument})`;
+}
+
+export function toPythonLiteral(value: JSONValue): string {
+  if (value === null) return "None";
+  if (typeof value === "boolean") return value ? "True" : "False";
+  if (typeof value === "number") return String(value);
+  if (typeof value === "string") return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(toPythonLiteral).join(", ")}]`;
+  return `{${Object.entries(value)
+    .map(([key, child]) => `${JSON.stringify(key)}: ${toPythonLiteral(child)}`)
+    .join(", ")}}`;
+}
+
+export function parseDefaultValue(text: string | undefined): JSONValue | undefined {
+  if (text === undefined || text.trim() === "") return undefined;
+  try {
+    return JSON.parse(text) as JSONValue;
+  } catch {
+    return text;
+  }
+}
+
+export function resolveFunctionName(name: string | undefined): string {
+  const trimmed = name?.trim() ?? "";
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(trimmed) ? trimmed : "transform";
+}
+
+function buildDtypeLine(selection: FieldSelection, frame: string): string | null {
+  const column = `${frame}["${escapeForPythonString(selection.fieldName)}"]`;
+  const timezone = selection.timezone?.trim();
+  const tzConvert = timezone ? `.dt.tz_convert("${escapeForPythonString(timezone)}")` : "";
+  switch (selection.dtype) {
+    case "int":
+      return `    ${column} = pd.to_numeric(${column}, errors="coerce").pipe(lambda s: s.where(s % 1 == 0)).astype("Int64")`;
+    case "float":
+      return `    ${column} = pd.to_numeric(${column}, errors="coerce")`;
+    case "bool":
+      return `    ${column} = ${column}.astype("boolean")`;
+    case "string":
+      return `    ${column} = ${column}.astype("string")`;
+    case "category":
+      return `    ${column} = ${column}.astype("category")`;
+    case "datetime": {
+      const format = selection.datetimeFormat?.trim();
+      const args = [
+        column,
+        `errors="coerce"`,
+        ...(format ? [`format="${escapeForPythonString(format)}"`] : []),
+        ...(timezone ? [`utc=True`] : []),
+      ];
+      return `    ${column} = pd.to_datetime(${args.join(", ")})${tzConvert}`;
+    }
+    case "epoch_s":
+    case "epoch_ms": {
+      const unit = selection.dtype === "epoch_s" ? "s" : "ms";
+      return `    ${column} = pd.to_datetime(pd.to_numeric(${column}, errors="coerce"), unit="${unit}", utc=True)${tzConvert}`;
+    }
+    default:
+      return null;
+  }
+}
+
+export function buildDtypeLines(
+  selections: FieldSelection[],
+  skipWildcards: boolean,
+  frame = "extracted"
+): string[] {
+  const lines = selections
+    .filter((selection) => !(skipWildcards && hasWildcard(selection.rawPath) && !isAggregated(selection)))
+    .map((selection) => buildDtypeLine(selection, frame))
+    .filter((line): line is string => line !== null);
+  return lines.length ? [...lines, ``] : [];
+}
+
+export function buildDocString(
+  selections: FieldSelection[],
+  columnName: string,
+  explode: boolean
+): string {
+  return `Extracts ${selections.length} field(s): ${selections
+    .map((selection) => selection.fieldName)
+    .join(", ")} from JSON column "${columnName}".${
+    explode ? " Array wildcards ([*]) produce one row per element." : ""
+  }`;
+}
+
+function buildSimplePythonCode(
+  selections: FieldSelection[],
+  columnName: string,
+  options: PythonCodeOptions
+): string {
+  const columnLiteral = escapeForPythonString(columnName);
+  const usesWildcards = selections.some((selection) => hasWildcard(selection.rawPath));
+  const aggregated = selections.filter(isAggregated);
+  const extractedFields = selections.filter((selection) => !isAggregated(selection));
+  const usesDecode = selections.some((selection) => hasDecode(selection.rawPath));
+  const usesPredicates = selections.some((selection) => hasPredicate(selection.rawPath));
+  const defaults = selections.map((selection) =>
+    isAggregated(selection) ? undefined : parseDefaultValue(selection.defaultValue)
+  );
+  const usesDefaults = defaults.some((value) => value !== undefined);
+  const strict = options.strictMode ?? false;
+  const parseErrorColumn = options.parseErrorColumn ?? false;
+  const flags: SafeGetFlags = {
+    decode: usesDecode,
+    defaults: usesDefaults,
+    strict,
+    predicates: usesPredicates,
+    negativeIndices: selections.some((selection) => hasNegativeIndex(selection.rawPath)),
+  };
+  const explode =
+    extractedFields.some((selection) => hasWildcard(selection.rawPath)) && options.wildcardMode === "explode";
+  const docString = buildDocString(selections, columnName, explode);
+
+  let parseJsonLines = options.literalEvalFallback ? PARSE_JSON_WITH_LITERAL_EVAL_LINES : PARSE_JSON_LINES;
+  if (strict || parseErrorColumn) {
+    parseJsonLines = buildRaisingParseJsonLines(options.literalEvalFallback ?? false);
+  }
+
+  const sentinels = [
+    ...(usesWildcards ? [`    ALL = object()`] : []),
+    ...(usesDecode ? [`    DECODE = object()`] : []),
+    ...(strict && usesDefaults ? [`    REQUIRED = object()`] : []),
+    ...(usesPredicates ? [`    Where = namedtuple("Where", "field op value match")`] : []),
+  ];
+
+  const header = [
+    `import pandas as pd`,
+    ``,
+    `def ${resolveFunctionName(options.functionName)}(df):`,
+    `    """${docString}"""`,
+    `    import json`,
+    ...(options.literalEvalFallback ? [`    import ast`] : []),
+    ...(usesPredicates ? [`    from collections import namedtuple`] : []),
+    ``,
+    ...sentinels,
+    ...(sentinels.length ? [``] : []),
+    ...parseJsonLines,
+    ``,
+    ...(usesPredicates ? [...MATCHES_WHERE_LINES, ``] : []),
+    ...buildSafeGetLines(flags),
     ``,
+  ];
+
+  let returnLine = `    return df.join(extracted)`;
+  if (options.returnMode === "extracted") {
+    returnLine = `    return extracted`;
+  } else if (options.dropSourceColumn) {
+    returnLine = `    return df.drop(columns=["${columnLiteral}"]).join(extracted)`;
+  }
+
+  const emptyFields = [
+    ...selections.map((selection) => `"${escapeForPythonString(selection.fieldName)}": None`),
+    `"_parse_error": str(exc)`,
+  ].join(", ");
+
+  const aggregateHelpers = aggregated.length ? [...buildAggregateLines(aggregated), ``] : [];
+
+  if (explode) {
+    const fieldLines = selections.flatMap((selection, index) => {
+      if (isAggregated(selection)) return [];
+      const fieldLiteral = escapeForPythonString(selection.fieldName);
+      const pathLiteral = buildPythonPathLiteral(
+        trimPathForColumn(selection.rawPath, columnName)
+      );
+      if (!usesDefaults) {
+        return `        ("${fieldLiteral}", ${pathLiteral})`;
+      }
+      const defaultValue = defaults[index];
+      const defaultLiteral =
+        defaultValue === undefined ? (strict ? "REQUIRED" : "None") : toPythonLiteral(defaultValue);
+      return `        ("${fieldLiteral}", ${pathLiteral}, ${defaultLiteral})`;
+    });
+    const aggregateLines = aggregated.length
+      ? [
+          `        aggregates = {`,
+          ...aggregated.map(
+            (selection) =>
+              `            "${escapeForPythonString(selection.fieldName)}": ${buildAggregateCall(selection, columnName)},`
+          ),
+          `        }`,
+        ]
+      : [];
+    const rowSpread = `**row${aggregated.length ? ", **aggregates" : ""}`;
+    let extractRowsLines = [`    def extract_rows(val):`, `        return expand_rows(parse_json(val), fields)`];
+    if (parseErrorColumn) {
+      extractRowsLines = [
+        `    def extract_rows(val):`,
+        `        try:`,
+        `            obj = parse_json(val)`,
+        `        except ValueError as exc:`,
+        `            return [{${emptyFields}}]`,
+        ...aggregateLines,
+        `        return [{${rowSpread}, "_parse_error": None} for row in expand_rows(obj, fields)]`,
+      ];
+    } else if (aggregated.length) {
+      extractRowsLines = [
+        `    def extract_rows(val):`,
+        `        obj = parse_json(val)`,
+        ...aggregateLines,
+        `        return [{${rowSpread}} for row in expand_rows(obj, fields)]`,
+      ];
+    }
+    return [
+      ...header,
+      ...(aggregated.length ? [...buildSafeGetAllLines(flags), ``] : []),
+      ...aggregateHelpers,
+      ...buildExpandRowsLines(flags),
+      ``,
+      `    fields = [`,
+      `${fieldLines.join(",\n")}`,
+      `    ]`,
+      ``,
+      ...extractRowsLines,
+      ``,
+      `    rows = df["${columnLiteral}"].apply(extract_rows).explode()`,
+      `    extracted = pd.DataFrame(rows.tolist(), index=rows.index)`,
+      ...buildDtypeLines(selections, false),
+      returnLine,
+    ].join("\n");
+  }
+
+  const seriesLines = selections.map((selection, index) => {
+    const fieldLiteral = escapeForPythonString(selection.fieldName);
+    if (isAggregated(selection)) {
+      return `            "${fieldLiteral}": ${buildAggregateCall(selection, columnName)}`;
+    }
+    const pathLiteral = buildPythonPathLiteral(
+      trimPathForColumn(selection.rawPath, columnName)
+    );
+    const getter = hasWildcard(selection.rawPath) ? "safe_get_all" : "safe_get";
+    const defaultValue = defaults[index];
+    const defaultArg = defaultValue === undefined ? "" : `, default=${toPythonLiteral(defaultValue)}`;
+    return `            "${fieldLiteral}": ${getter}(obj, ${pathLiteral}${defaultArg})`;
+  });
+  if (parseErrorColumn) {
+    seriesLines.push(`            "_parse_error": None`);
+  }
+
+  return [
+    ...header,
+    ...(usesWildcards ? [...buildSafeGetAllLines(flags), ``] : []),
+    ...aggregateHelpers,
     `    def extract_fields(val):`,
-    `        obj = parse_json(val)`,
+    ...(parseErrorColumn
+      ? [
+          `        try:`,
+          `            obj = parse_json(val)`,
+          `        except ValueError as exc:`,
+          `            return pd.Series({${emptyFields}})`,
+        ]
+      : [`        obj = parse_json(val)`]),
     ``,
     `        return pd.Series({`,
     `${seriesLines.join(",\n")}`,
     `        })`,
     ``,
     `    extracted = df["${columnLiteral}"].apply(extract_fields)`,
-    `    return df.join(extracted)`,
+    ...buildDtypeLines(selections, true),
+    returnLine,
   ].join("\n");
 }
 
 export function generatePythonCode(
   selections: Map<string, FieldSelection>,
-  columnName: string
+  columnName: string,
+  options: PythonCodeOptions
+): string {
+  if (selections.size === 0) {
+    return "";
+  }
+  return buildSimplePythonCode(Array.from(selections.values()), columnName, options);
+}
+
+function buildPolarsExpr(base: string, path: SelectionPath): string {
+  let expr = base;
+  for (let index = 0; index < path.length; index += 1) {
+    const step = path[index];
+    if (isWildcardStep(step)) {
+      const rest = path.slice(index + 1);
+      const inner = buildPolarsExpr("pl.element()", rest);
+      const flatten = hasWildcard(rest) ? ".list.eval(pl.element().flatten())" : "";
+      return `${expr}.list.eval(${inner})${flatten}`;
+    }
+    if (isDecodeStep(step)) {
+      expr += ".str.json_decode()";
+      continue;
+    }
+    if (isPredicateStep(step)) {
+      const candidate = `pl.element().struct.field("${escapeForPythonString(step.field)}")`;
+      const condition =
+        step.operator === "contains"
+          ? `${candidate}.str.contains(${predicateValueLiteral(step)}, literal=True)`
+          : `${candidate} == ${predicateValueLiteral(step)}`;
+      expr += `.list.eval(pl.element().filter(${condition})).list.${step.match}()`;
+      continue;
+    }
+    expr +=
+      typeof step === "number"
+        ? `.list.get(${step}, null_on_oob=True)`
+        : `.struct.field("${escapeForPythonString(step)}")`;
+  }
+  return expr;
+}
+
+function buildPolarsAggregateExpr(base: string, path: SelectionPath, selection: AggregatedSelection): string {
+  const { aggregate } = selection;
+  const multiplier = multiplierPath(path, aggregate);
+  const values = multiplier
+    ? `${buildPolarsExpr(base, path.slice(0, -1))}.list.eval(pl.element().struct.field("${escapeForPythonString(
+        String(path[path.length - 1])
+      )}") * pl.element().struct.field("${escapeForPythonString(String(multiplier[multiplier.length - 1]))}"))`
+    : buildPolarsExpr(base, path);
+  const argument = toPythonLiteral(aggregateArgument(aggregate));
+  switch (aggregate.kind) {
+    case "count":
+      return `${values}.list.drop_nulls().list.len()`;
+    case "distinct":
+      return `${values}.list.drop_nulls().list.n_unique()`;
+    case "join":
+      return `${values}.list.eval(pl.element().cast(pl.String)).list.join(${argument})`;
+    case "any":
+    case "all":
+      return `${values}.list.eval(pl.element() == ${argument}).list.${aggregate.kind}()`;
+    default:
+      return `${values}.list.${aggregate.kind}()`;
+  }
+}
+
+function buildPolarsDtypeSuffix(selection: FieldSelection): string {
+  const timezone = selection.timezone?.trim();
+  const tzLiteral = timezone ? `"${escapeForPythonString(timezone)}"` : "";
+  switch (selection.dtype) {
+    case "int":
+      return `.cast(pl.Int64, strict=False)`;
+    case "float":
+      return `.cast(pl.Float64, strict=False)`;
+    case "bool":
+      return `.cast(pl.Boolean, strict=False)`;
+    case "string":
+      return `.cast(pl.String)`;
+    case "category":
+      return `.cast(pl.Categorical)`;
+    case "datetime": {
+      const format = selection.datetimeFormat?.trim();
+      const args = [
+        ...(format ? [`format="${escapeForPythonString(format)}"`] : []),
+        ...(timezone ? [`time_zone=${tzLiteral}`] : []),
+        `strict=False`,
+      ];
+      return `.str.to_datetime(${args.join(", ")})`;
+    }
+    default:
+      return "";
+  }
+}
+
+function buildPolarsFieldExpr(selection: FieldSelection, expr: string, coerce: boolean): string {
+  const alias = `.alias("${escapeForPythonString(selection.fieldName)}")`;
+  if (!coerce) {
+    return `${expr}${alias}`;
+  }
+  if (selection.dtype === "epoch_s" || selection.dtype === "epoch_ms") {
+    const unit = selection.dtype === "epoch_s" ? "s" : "ms";
+    const timezone = selection.timezone?.trim();
+    const tzSuffix = timezone
+      ? `.dt.replace_time_zone("UTC").dt.convert_time_zone("${escapeForPythonString(timezone)}")`
+      : "";
+    return `pl.from_epoch(${expr}.cast(pl.Int64, strict=False), time_unit="${unit}")${tzSuffix}${alias}`;
+  }
+  return `${expr}${buildPolarsDtypeSuffix(selection)}${alias}`;
+}
+
+interface PolarsField {
+  selection: FieldSelection;
+  path: SelectionPath;
+}
+
+function buildPolarsExplodeLines(
+  baseColumn: string,
+  fields: PolarsField[],
+  helpers: string[]
+): string[] {
+  const expressions: string[] = [];
+  const groups = new Map<string, { prefix: SelectionPath; fields: PolarsField[] }>();
+  fields.forEach((field) => {
+    const split = field.path.findIndex(isWildcardStep);
+    if (split === -1) {
+      expressions.push(
+        buildPolarsFieldExpr(field.selection, buildPolarsExpr(`pl.col("${baseColumn}")`, field.path), true)
+      );
+      return;
+    }
+    const prefix = field.path.slice(0, split);
+    const groupKey = JSON.stringify(prefix);
+    const group = groups.get(groupKey) ?? { prefix, fields: [] };
+    group.fields.push({ selection: field.selection, path: field.path.slice(split + 1) });
+    groups.set(groupKey, group);
+  });
+
+  const groupHelpers = Array.from(groups.values()).map((group) => {
+    const helper = `_each_${helpers.length + 1}`;
+    helpers.push(helper);
+    expressions.push(`${buildPolarsExpr(`pl.col("${baseColumn}")`, group.prefix)}.alias("${helper}")`);
+    return { helper, fields: group.fields };
+  });
+
+  const lines = [
+    `    df = df.with_columns(`,
+    ...expressions.map((expression) => `        ${expression},`),
+    `    )`,
+  ];
+  groupHelpers.forEach(({ helper, fields: groupFields }) => {
+    lines.push(`    df = df.explode("${helper}")`);
+    lines.push(...buildPolarsExplodeLines(helper, groupFields, helpers));
+  });
+  return lines;
+}
+
+function buildPolarsCode(
+  selections: FieldSelection[],
+  columnName: string,
+  options: PythonCodeOptions
+): string {
+  const columnLiteral = escapeForPythonString(columnName);
+  const explode =
+    selections.some((selection) => hasWildcard(selection.rawPath) && !isAggregated(selection)) &&
+    options.wildcardMode === "explode";
+  const aggregateExpressions = selections
+    .filter(isAggregated)
+    .map((selection) =>
+      buildPolarsFieldExpr(
+        selection,
+        buildPolarsAggregateExpr("payload", trimPathForColumn(selection.rawPath, columnName), selection),
+        true
+      )
+    );
+  const header = [
+    `import polars as pl`,
+    ``,
+    `def transform(df):`,
+    `    """${buildDocString(selections, columnName, explode)}"""`,
+    `    payload = pl.col("${columnLiteral}")`,
+    `    if df.schema["${columnLiteral}"] == pl.String:`,
+    `        payload = payload.str.json_decode()`,
+    ``,
+  ];
+
+  if (explode) {
+    const helpers: string[] = [];
+    const fields = selections
+      .filter((selection) => !isAggregated(selection))
+      .map((selection) => ({
+        selection,
+        path: trimPathForColumn(selection.rawPath, columnName),
+      }));
+    const lines = buildPolarsExplodeLines("_payload", fields, helpers);
+    const dropped = ["_payload", ...helpers].map((helper) => `"${helper}"`).join(", ");
+    return [
+      ...header,
+      ...(aggregateExpressions.length
+        ? [
+            `    df = df.with_columns(`,
+            `        payload.alias("_payload"),`,
+            ...aggregateExpressions.map((expression) => `        ${expression},`),
+            `    )`,
+          ]
+        : [`    df = df.with_columns(payload.alias("_payload"))`]),
+      ...lines,
+      `    return df.drop(${dropped})`,
+    ].join("\n");
+  }
+
+  const expressions = selections.map((selection) => {
+    const path = trimPathForColumn(selection.rawPath, columnName);
+    if (isAggregated(selection)) {
+      return buildPolarsFieldExpr(selection, buildPolarsAggregateExpr("payload", path, selection), true);
+    }
+    return buildPolarsFieldExpr(selection, buildPolarsExpr("payload", path), !hasWildcard(path));
+  });
+  return [
+    ...header,
+    `    return df.with_columns(`,
+    ...expressions.map((expression) => `        ${expression},`),
+    `    )`,
+  ].join("\n");
+}
+
+export function generatePolarsCode(
+  selections: Map<string, FieldSelection>,
+  columnName: string,
+  options: PythonCodeOptions
 ): string {
   if (selections.size === 0) {
     return "";
   }
-  return buildSimplePythonCode(Array.from(selections.values()), columnName);
+  return buildPolarsCode(Array.from(selections.values()), columnName, options);
 }
 
-export function buildPythonAccessPath(path: Path): string {
-  return path
-    .map((segment) =>
-      typeof segment === "number" ? `[${segment}]` : `["${segment}"]`
-    )
-    .join("");
+export function buildPythonAccessPath(path: SelectionPath, base: string): string {
+  return path.reduce<string>((accumulator, segment) => {
+    if (isDecodeStep(segment)) {
+      return `json.loads(${accumulator})`;
+    }
+    if (isWildcardStep(segment)) {
+      return `${accumulator}[*]`;
+    }
+    if (isPredicateStep(segment)) {
+      const candidate = `item.get("${escapeForPythonString(segment.field)}")`;
+      const condition =
+        segment.operator === "contains"
+          ? `${predicateValueLiteral(segment)} in str(${candidate})`
+          : `${candidate} == ${predicateValueLiteral(segment)}`;
+      return `[item for item in ${accumulator} if ${condition}][${segment.match === "first" ? 0 : -1}]`;
+    }
+    return typeof segment === "number" ? `${accumulator}[${segment}]` : `${accumulator}["${segment}"]`;
+  }, base);
 }
@@ -0,0 +1,522 @@
+import type { JSONValue, JSONObject, JSONArray, Path, QuerySyntax } from "../types";
+import { getJsonType, getValueAtPath } from "./json";
+
+type Token =
+  | { type: "punct"; value: string; position: number }
+  | { type: "name"; value: string; position: number }
+  | { type: "number"; value: number; position: number }
+  | { type: "string"; value: string; quote: "'" | '"'; position: number }
+  | { type: "literal"; value: JSONValue; position: number };
+
+type FilterOperand =
+  | { kind: "path"; from: "current" | "root"; path: Path }
+  | { kind: "literal"; value: JSONValue };
+
+type ComparisonOperator = "==" | "!=" | "<" | "<=" | ">" | ">=";
+
+type FilterPredicate =
+  | { kind: "exists"; operand: FilterOperand }
+  | { kind: "compare"; operator: ComparisonOperator; left: FilterOperand; right: FilterOperand }
+  | { kind: "and" | "or"; left: FilterPredicate; right: FilterPredicate }
+  | { kind: "not"; predicate: FilterPredicate };
+
+type QueryStep =
+  | { kind: "names"; names: (string | number)[] }
+  | { kind: "wildcard" }
+  | { kind: "descendants" }
+  | { kind: "slice"; start?: number; end?: number; step: number }
+  | { kind: "flatten" }
+  | { kind: "filter"; predicate: FilterPredicate; scope: "children" | "elements" };
+
+interface QueryMatch {
+  path: Path;
+  value: JSONValue;
+}
+
+const PUNCTUATORS = [
+  "..", "==", "!=", "<=", ">=", "&&", "||",
+  "$", "@", ".", "[", "]", "(", ")", ",", ":", "*", "?", "<", ">", "!",
+];
+const COMPARISON_OPERATORS: ComparisonOperator[] = ["==", "!=", "<", "<=", ">", ">="];
+const KEYWORD_LITERALS: Record<string, JSONValue> = { true: true, false: false, null: null };
+
+function readQuoted(expression: string, start: number): { text: string; end: number } {
+  const quote = expression[start];
+  let index = start + 1;
+  while (index < expression.length && expression[index] !== quote) {
+    index += expression[index] === "\\" ? 2 : 1;
+  }
+  if (index >= expression.length) {
+    throw new Error(`Unterminated ${quote} at position ${start + 1}.`);
+  }
+  return { text: expression.slice(start + 1, index), end: index + 1 };
+}
+
+function tokenize(expression: string, syntax: QuerySyntax): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < expression.length) {
+    const char = expression[index];
+    const position = index + 1;
+
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+
+    if (char === "`" && syntax === "jmespath") {
+      const { text, end } = readQuoted(expression, index);
+      try {
+        tokens.push({ type: "literal", value: JSON.parse(text.replace(/\\`/g, "`")) as JSONValue, position });
+      } catch {
+        throw new Error(`Invalid literal \`${text}\` at position ${position}.`);
+      }
+      index = end;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      const { text, end } = readQuoted(expression, index);
+      const value =
+        char === '"' ? (JSON.parse(`"${text}"`) as string) : text.replace(/\\(['\\])/g, "$1");
+      tokens.push({ type: "string", value, quote: char, position });
+      index = end;
+      continue;
+    }
+
+    const numberMatch = /^-?\d+(\.\d+)?([eE][+-]?\d+)?/.exec(expression.slice(index));
+    if (numberMatch && (char !== "-" || /\d/.test(expression[index + 1] ?? ""))) {
+      tokens.push({ type: "number", value: Number(numberMatch[0]), position });
+      index += numberMatch[0].length;
+      continue;
+    }
+
+    const nameMatch = /^[A-Za-z_][\w-]*/.exec(expression.slice(index));
+    if (nameMatch) {
+      tokens.push({ type: "name", value: nameMatch[0], position });
+      index += nameMatch[0].length;
+      continue;
+    }
+
+    const punct = PUNCTUATORS.find((candidate) => expression.startsWith(candidate, index));
+    if (!punct) {
+      throw new Error(`Unexpected character "${char}" at position ${position}.`);
+    }
+    tokens.push({ type: "punct", value: punct, position });
+    index += punct.length;
+  }
+
+  return tokens;
+}
+
+function createCursor(tokens: Token[], expression: string) {
+  let index = 0;
+  const peek = (offset = 0): Token | undefined => tokens[index + offset];
+  const isPunct = (value: string, offset = 0): boolean => {
+    const token = peek(offset);
+    return token?.type === "punct" && token.value === value;
+  };
+  const fail = (token = peek()): never => {
+    if (!token) throw new Error(`Unexpected end of query "${expression}".`);
+    const text = token.type === "string" ? `${token.quote}${token.value}${token.quote}` : String(token.value);
+    throw new Error(`Unexpected "${text}" at position ${token.position}.`);
+  };
+  const next = (): Token => {
+    const token = peek();
+    if (!token) return fail();
+    index += 1;
+    return token;
+  };
+  const accept = (value: string): boolean => {
+    if (!isPunct(value)) return false;
+    index += 1;
+    return true;
+  };
+  const expect = (value: string): void => {
+    if (!accept(value)) fail();
+  };
+  return { peek, isPunct, fail, next, accept, expect, done: () => index >= tokens.length };
+}
+
+type Cursor = ReturnType<typeof createCursor>;
+
+function parseRelativePath(cursor: Cursor, syntax: QuerySyntax): Path {
+  const path: Path = [];
+  for (;;) {
+    if (cursor.accept(".")) {
+      const token = cursor.next();
+      if (token.type === "name" || (token.type === "string" && (syntax === "jmespath" ? token.quote === '"' : true))) {
+        path.push(token.value);
+      } else {
+        cursor.fail(token);
+      }
+    } else if (cursor.isPunct("[") && cursor.peek(1)?.type !== "punct") {
+      cursor.expect("[");
+      const token = cursor.next();
+      if (token.type === "number" && Number.isInteger(token.value)) {
+        path.push(token.value);
+      } else if (token.type === "string" && syntax === "jsonpath") {
+        path.push(token.value);
+      } else {
+        cursor.fail(token);
+      }
+      cursor.expect("]");
+    } else {
+      return path;
+    }
+  }
+}
+
+function parseOperand(cursor: Cursor, syntax: QuerySyntax): FilterOperand {
+  const token = cursor.next();
+  if (token.type === "punct" && (token.value === "@" || (token.value === "$" && syntax === "jsonpath"))) {
+    return { kind: "path", from: token.value === "@" ? "current" : "root", path: parseRelativePath(cursor, syntax) };
+  }
+  if (token.type === "literal" || token.type === "number") {
+    return { kind: "literal", value: token.value };
+  }
+  if (token.type === "string") {
+    if (syntax === "jmespath" && token.quote === '"') {
+      return { kind: "path", from: "current", path: [token.value, ...parseRelativePath(cursor, syntax)] };
+    }
+    return { kind: "literal", value: token.value };
+  }
+  if (token.type === "name") {
+    if (syntax === "jsonpath" && token.value in KEYWORD_LITERALS) {
+      return { kind: "literal", value: KEYWORD_LITERALS[token.value] };
+    }
+    if (syntax === "jmespath") {
+      return { kind: "path", from: "current", path: [token.value, ...parseRelativePath(cursor, syntax)] };
+    }
+  }
+  return cursor.fail(token);
+}
+
+function parsePredicate(cursor: Cursor, syntax: QuerySyntax): FilterPredicate {
+  const parseUnary = (): FilterPredicate => {
+    if (cursor.accept("!")) {
+      return { kind: "not", predicate: parseUnary() };
+    }
+    if (cursor.accept("(")) {
+      const inner = parseOr();
+      cursor.expect(")");
+      return inner;
+    }
+    const left = parseOperand(cursor, syntax);
+    const token = cursor.peek();
+    const operator = COMPARISON_OPERATORS.find(
+      (candidate) => token?.type === "punct" && token.value === candidate
+    );
+    if (!operator) {
+      return { kind: "exists", operand: left };
+    }
+    cursor.next();
+    return { kind: "compare", operator, left, right: parseOperand(cursor, syntax) };
+  };
+
+  const parseAnd = (): FilterPredicate => {
+    let left = parseUnary();
+    while (cursor.accept("&&")) {
+      left = { kind: "and", left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseOr = (): FilterPredicate => {
+    let left = parseAnd();
+    while (cursor.accept("||")) {
+      left = { kind: "or", left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  return parseOr();
+}
+
+function parseSliceBound(cursor: Cursor): number | undefined {
+  const token = cursor.peek();
+  if (token?.type !== "number") return undefined;
+  cursor.next();
+  if (!Number.isInteger(token.value)) cursor.fail(token);
+  return token.value;
+}
+
+function parseSlice(cursor: Cursor, start: number | undefined): QueryStep {
+  cursor.expect(":");
+  const end = parseSliceBound(cursor);
+  let step = 1;
+  if (cursor.accept(":")) {
+    const token = cursor.peek();
+    step = parseSliceBound(cursor) ?? 1;
+    if (step === 0) cursor.fail(token);
+  }
+  return { kind: "slice", start, end, step };
+}
+
+function parseJsonPathBracket(cursor: Cursor): QueryStep {
+  cursor.expect("[");
+  let step: QueryStep;
+
+  if (cursor.accept("*")) {
+    step = { kind: "wildcard" };
+  } else if (cursor.accept("?")) {
+    step = { kind: "filter", predicate: parsePredicate(cursor, "jsonpath"), scope: "children" };
+  } else if (cursor.isPunct(":")) {
+    step = parseSlice(cursor, undefined);
+  } else {
+    const names: (string | number)[] = [];
+    do {
+      const token = cursor.next();
+      if (token.type === "number" && Number.isInteger(token.value)) {
+        if (names.length === 0 && cursor.isPunct(":")) {
+          step = parseSlice(cursor, token.value);
+          cursor.expect("]");
+          return step;
+        }
+        names.push(token.value);
+      } else if (token.type === "string") {
+        names.push(token.value);
+      } else {
+        cursor.fail(token);
+      }
+    } while (cursor.accept(","));
+    step = { kind: "names", names };
+  }
+
+  cursor.expect("]");
+  return step;
+}
+
+function parseJsonPath(cursor: Cursor): QueryStep[] {
+  const steps: QueryStep[] = [];
+  if (!cursor.accept("$") && cursor.peek()?.type === "name") {
+    steps.push({ kind: "names", names: [cursor.next().value as string] });
+  }
+
+  while (!cursor.done()) {
+    if (cursor.accept("..")) {
+      steps.push({ kind: "descendants" });
+      if (cursor.isPunct("[")) continue;
+    } else if (cursor.isPunct("[")) {
+      steps.push(parseJsonPathBracket(cursor));
+      continue;
+    } else {
+      cursor.expect(".");
+    }
+
+    const token = cursor.next();
+    if (token.type === "punct" && token.value === "*") {
+      steps.push({ kind: "wildcard" });
+    } else if (token.type === "name" || token.type === "string") {
+      steps.push({ kind: "names", names: [token.value] });
+    } else {
+      cursor.fail(token);
+    }
+  }
+
+  return steps;
+}
+
+function parseJmesPathBracket(cursor: Cursor): QueryStep {
+  cursor.expect("[");
+  let step: QueryStep;
+
+  if (cursor.isPunct("]")) {
+    step = { kind: "flatten" };
+  } else if (cursor.accept("*")) {
+    step = { kind: "wildcard" };
+  } else if (cursor.accept("?")) {
+    step = { kind: "filter", predicate: parsePredicate(cursor, "jmespath"), scope: "elements" };
+  } else if (cursor.isPunct(":")) {
+    step = parseSlice(cursor, undefined);
+  } else {
+    const index = parseSliceBound(cursor);
+    if (index === undefined) return cursor.fail();
+    step = cursor.isPunct(":") ? parseSlice(cursor, index) : { kind: "names", names: [index] };
+  }
+
+  cursor.expect("]");
+  return step;
+}
+
+function parseJmesPathIdentifier(cursor: Cursor): QueryStep {
+  const token = cursor.next();
+  if (token.type === "punct" && token.value === "*") {
+    return { kind: "wildcard" };
+  }
+  if (token.type === "name" || (token.type === "string" && token.quote === '"')) {
+    return { kind: "names", names: [token.value] };
+  }
+  return cursor.fail(token);
+}
+
+function parseJmesPath(cursor: Cursor): QueryStep[] {
+  const steps: QueryStep[] = [];
+  if (!cursor.accept("@") && !cursor.isPunct("[")) {
+    steps.push(parseJmesPathIdentifier(cursor));
+  }
+
+  while (!cursor.done()) {
+    if (cursor.isPunct("[")) {
+      steps.push(parseJmesPathBracket(cursor));
+    } else {
+      cursor.expect(".");
+      steps.push(parseJmesPathIdentifier(cursor));
+    }
+  }
+
+  return steps;
+}
+
+function compareValues(operator: ComparisonOperator, left: JSONValue | undefined, right: JSONValue | undefined): boolean {
+  if (operator === "==" || operator === "!=") {
+    const equal = left !== undefined && right !== undefined && JSON.stringify(left) === JSON.stringify(right);
+    return operator === "==" ? equal : !equal;
+  }
+  if (
+    !(typeof left === "number" && typeof right === "number") &&
+    !(typeof left === "string" && typeof right === "string")
+  ) {
+    return false;
+  }
+  switch (operator) {
+    case "<":
+      return left < right;
+    case "<=":
+      return left <= right;
+    case ">":
+      return left > right;
+    case ">=":
+      return left >= right;
+  }
+}
+
+function testPredicate(predicate: FilterPredicate, current: JSONValue, root: JSONValue): boolean {
+  const resolve = (operand: FilterOperand): JSONValue | undefined =>
+    operand.kind === "literal"
+      ? operand.value
+      : getValueAtPath(operand.from === "current" ? current : root, operand.path);
+
+  switch (predicate.kind) {
+    case "exists": {
+      const value = resolve(predicate.operand);
+      return value !== undefined && value !== null && value !== false;
+    }
+    case "compare":
+      return compareValues(predicate.operator, resolve(predicate.left), resolve(predicate.right));
+    case "and":
+      return testPredicate(predicate.left, current, root) && testPredicate(predicate.right, current, root);
+    case "or":
+      return testPredicate(predicate.left, current, root) || testPredicate(predicate.right, current, root);
+    case "not":
+      return !testPredicate(predicate.predicate, current, root);
+  }
+}
+
+function childMatches({ path, value }: QueryMatch): QueryMatch[] {
+  const type = getJsonType(value);
+  if (type === "array") {
+    return (value as JSONArray).map((child, index) => ({ path: [...path, index], value: child }));
+  }
+  if (type === "object") {
+    return Object.entries(value as JSONObject).map(([key, child]) => ({ path: [...path, key], value: child }));
+  }
+  return [];
+}
+
+function sliceIndices(length: number, start: number | undefined, end: number | undefined, step: number): number[] {
+  const normalize = (bound: number) =>
+    bound < 0 ? Math.max(length + bound, step > 0 ? 0 : -1) : Math.min(bound, step > 0 ? length : length - 1);
+  const from = start === undefined ? (step > 0 ? 0 : length - 1) : normalize(start);
+  const to = end === undefined ? (step > 0 ? length : -1) : normalize(end);
+  const indices: number[] = [];
+  for (let index = from; step > 0 ? index < to : index > to; index += step) {
+    indices.push(index);
+  }
+  return indices;
+}
+
+function applyStep(matches: QueryMatch[], step: QueryStep, root: JSONValue): QueryMatch[] {
+  const results: QueryMatch[] = [];
+
+  matches.forEach((match) => {
+    const { path, value } = match;
+    switch (step.kind) {
+      case "names":
+        step.names.forEach((name) => {
+          if (typeof name === "number") {
+            if (!Array.isArray(value)) return;
+            const index = name < 0 ? value.length + name : name;
+            if (index >= 0 && index < value.length) {
+              results.push({ path: [...path, index], value: value[index] });
+            }
+          } else if (getJsonType(value) === "object" && Object.prototype.hasOwnProperty.call(value, name)) {
+            results.push({ path: [...path, name], value: (value as JSONObject)[name] });
+          }
+        });
+        break;
+      case "wildcard":
+        childMatches(match).forEach((child) => results.push(child));
+        break;
+      case "descendants": {
+        const stack = [match];
+        while (stack.length > 0) {
+          const current = stack.pop() as QueryMatch;
+          results.push(current);
+          const children = childMatches(current);
+          for (let index = children.length - 1; index >= 0; index -= 1) {
+            stack.push(children[index]);
+          }
+        }
+        break;
+      }
+      case "slice":
+        if (!Array.isArray(value)) break;
+        sliceIndices(value.length, step.start, step.end, step.step).forEach((index) => {
+          results.push({ path: [...path, index], value: value[index] });
+        });
+        break;
+      case "flatten":
+        if (!Array.isArray(value)) break;
+        childMatches(match).forEach((child) => {
+          if (Array.isArray(child.value)) {
+            childMatches(child).forEach((grandchild) => results.push(grandchild));
+          } else {
+            results.push(child);
+          }
+        });
+        break;
+      case "filter":
+        if (step.scope === "elements" && !Array.isArray(value)) break;
+        childMatches(match).forEach((child) => {
+          if (testPredicate(step.predicate, child.value, root)) results.push(child);
+        });
+        break;
+    }
+  });
+
+  return results;
+}
+
+export function evaluateQuery(root: JSONValue, expression: string, syntax: QuerySyntax): Path[] {
+  const trimmed = expression.trim();
+  if (!trimmed) return [];
+
+  const cursor = createCursor(tokenize(trimmed, syntax), trimmed);
+  const steps = syntax === "jsonpath" ? parseJsonPath(cursor) : parseJmesPath(cursor);
+  const matches = steps.reduce<QueryMatch[]>(
+    (current, step) => applyStep(current, step, root),
+    [{ path: [], value: root }]
+  );
+
+  const seen = new Set<string>();
+  return matches
+    .map(({ path }) => path)
+    .filter((path) => {
+      const key = JSON.stringify(path);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
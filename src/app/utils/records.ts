@@ -0,0 +1,104 @@
+import type { JSONValue, JSONObject, JSONArray, JsonType, Path, PathStats } from "../types";
+import { getJsonType } from "./json";
+import { JsonSyntaxError, offsetSyntaxError } from "./lenient";
+
+export function parseRecords(
+  raw: string,
+  parseValue: (text: string) => JSONValue = (text) => JSON.parse(text) as JSONValue
+): JSONValue[] {
+  const trimmed = raw.trim();
+  let arrayError: unknown = null;
+  if (trimmed.startsWith("[")) {
+    try {
+      const parsed = parseValue(trimmed);
+      if (Array.isArray(parsed)) {
+        return parsed;
+      }
+    } catch (error) {
+      // Not a single JSON array; fall through to line-by-line parsing.
+      arrayError = offsetSyntaxError(error, raw.length - raw.trimStart().length);
+    }
+  }
+
+  const records: JSONValue[] = [];
+  let lineStart = 0;
+  raw.split("\n").forEach((rawLine, index) => {
+    const offset = lineStart;
+    lineStart += rawLine.length + 1;
+    const line = rawLine.replace(/\r$/, "");
+    if (!line.trim()) return;
+    try {
+      records.push(parseValue(line));
+    } catch (error) {
+      if (arrayError && records.length === 0) throw arrayError;
+      if (error instanceof JsonSyntaxError) throw offsetSyntaxError(error, offset);
+      const reason = error instanceof Error ? error.message : "Unknown parsing error";
+      throw new Error(`Line ${index + 1}: ${reason}`);
+    }
+  });
+  return records;
+}
+
+function mergeValues(existing: JSONValue | undefined, incoming: JSONValue): JSONValue {
+  if (existing === undefined || existing === null) {
+    return incoming;
+  }
+  const existingType = getJsonType(existing);
+  const incomingType = getJsonType(incoming);
+  if (existingType === "object" && incomingType === "object") {
+    const merged: JSONObject = { ...(existing as JSONObject) };
+    Object.entries(incoming as JSONObject).forEach(([key, child]) => {
+      const current = Object.prototype.hasOwnProperty.call(merged, key) ? merged[key] : undefined;
+      Object.defineProperty(merged, key, {
+        value: mergeValues(current, child),
+        writable: true,
+        enumerable: true,
+        configurable: true,
+      });
+    });
+    return merged;
+  }
+  if (existingType === "array" && incomingType === "array") {
+    const merged: JSONArray = [...(existing as JSONArray)];
+    (incoming as JSONArray).forEach((child, index) => {
+      merged[index] = mergeValues(merged[index], child);
+    });
+    return merged;
+  }
+  return existing;
+}
+
+export function mergeRecords(records: JSONValue[]): JSONValue {
+  return records.reduce<JSONValue | undefined>(
+    (merged, record) => mergeValues(merged, record),
+    undefined
+  ) ?? null;
+}
+
+export function collectPathStats(records: JSONValue[]): Map<string, PathStats> {
+  const counts = new Map<string, { count: number; types: Set<JsonType> }>();
+  const walk = (value: JSONValue, path: Path): void => {
+    const key = JSON.stringify(path);
+    const type = getJsonType(value);
+    const entry = counts.get(key) ?? { count: 0, types: new Set<JsonType>() };
+    entry.count += 1;
+    entry.types.add(type);
+    counts.set(key, entry);
+    if (type === "object") {
+      Object.entries(value as JSONObject).forEach(([childKey, child]) => {
+        walk(child, [...path, childKey]);
+      });
+    } else if (type === "array") {
+      (value as JSONArray).forEach((child, index) => {
+        walk(child, [...path, index]);
+      });
+    }
+  };
+  records.forEach((record) => walk(record, []));
+
+  const stats = new Map<string, PathStats>();
+  counts.forEach((entry, key) => {
+    stats.set(key, { count: entry.count, types: Array.from(entry.types) });
+  });
+  return stats;
+}
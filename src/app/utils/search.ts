@@ -0,0 +1,55 @@
+import type { JSONValue, JSONObject, JSONArray, Path, SearchOptions } from "../types";
+import { getJsonType } from "./json";
+
+export function buildSearchMatcher(term: string, options: SearchOptions): ((text: string) => boolean) | null {
+  if (!term) return null;
+  if (options.regex) {
+    const pattern = new RegExp(term, options.caseSensitive ? "" : "i");
+    return (text) => pattern.test(text);
+  }
+  if (options.caseSensitive) {
+    return (text) => text.includes(term);
+  }
+  const needle = term.toLowerCase();
+  return (text) => text.toLowerCase().includes(needle);
+}
+
+export function findSearchMatches(
+  root: JSONValue,
+  term: string,
+  options: SearchOptions,
+  limit: number
+): Path[] {
+  const matches = buildSearchMatcher(term, options);
+  if (!matches) return [];
+
+  const results: Path[] = [];
+  const stack: { value: JSONValue; path: Path }[] = [{ value: root, path: [] }];
+
+  while (stack.length > 0 && results.length < limit) {
+    const { value, path } = stack.pop() as { value: JSONValue; path: Path };
+    const key = path[path.length - 1];
+    const type = getJsonType(value);
+
+    const keyMatches = options.scope !== "values" && typeof key === "string" && matches(key);
+    const valueMatches =
+      options.scope !== "keys" && type !== "object" && type !== "array" && matches(String(value));
+    if (keyMatches || valueMatches) {
+      results.push(path);
+    }
+
+    if (type === "array") {
+      const items = value as JSONArray;
+      for (let index = items.length - 1; index >= 0; index -= 1) {
+        stack.push({ value: items[index], path: [...path, index] });
+      }
+    } else if (type === "object") {
+      const entries = Object.entries(value as JSONObject);
+      for (let index = entries.length - 1; index >= 0; index -= 1) {
+        stack.push({ value: entries[index][1], path: [...path, entries[index][0]] });
+      }
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,63 @@
+import type { ExtractionSpec, InputMode, OutputSettings } from "../types";
+import { parseExtractionSpec } from "./spec";
+
+export const SHARE_HASH_PREFIX = "#state=";
+export const MAX_SHARE_HASH_LENGTH = 8000;
+
+export interface ShareState {
+  spec: ExtractionSpec;
+  expandedPaths: string[];
+  wildcardPaths: string[];
+  decodedPaths: string[];
+  inputMode: InputMode;
+  payload?: string;
+}
+
+function bytesToBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function base64UrlToBytes(value: string): Uint8Array {
+  const padded = value.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(value.length / 4) * 4, "=");
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index += 1) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+}
+
+async function pipeBytes(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export async function encodeShareState(state: ShareState): Promise<string> {
+  const bytes = new TextEncoder().encode(JSON.stringify(state));
+  const compressed = await pipeBytes(bytes, new CompressionStream("deflate-raw"));
+  return `${SHARE_HASH_PREFIX}${bytesToBase64Url(compressed)}`;
+}
+
+export async function decodeShareState(hash: string, defaults: OutputSettings): Promise<ShareState> {
+  if (!hash.startsWith(SHARE_HASH_PREFIX)) {
+    throw new Error("Link does not contain explorer state.");
+  }
+  const compressed = base64UrlToBytes(hash.slice(SHARE_HASH_PREFIX.length));
+  const bytes = await pipeBytes(compressed, new DecompressionStream("deflate-raw"));
+  const raw = JSON.parse(new TextDecoder().decode(bytes)) as Partial<ShareState>;
+  const toStrings = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+
+  return {
+    spec: parseExtractionSpec(JSON.stringify(raw.spec ?? {}), defaults),
+    expandedPaths: toStrings(raw.expandedPaths),
+    wildcardPaths: toStrings(raw.wildcardPaths),
+    decodedPaths: toStrings(raw.decodedPaths),
+    inputMode: raw.inputMode === "records" ? "records" : "document",
+    ...(typeof raw.payload === "string" ? { payload: raw.payload } : {}),
+  };
+}
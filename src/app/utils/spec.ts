@@ -0,0 +1,162 @@
+import type {
+  JSONValue,
+  SelectionPath,
+  FieldSelection,
+  FieldDtype,
+  ExtractionSpec,
+  OutputSettings,
+  CodeTarget,
+  WildcardMode,
+  SqlDialect,
+  JqFormat,
+  ReturnMode,
+  PredicateOperator,
+  PredicateMatch,
+  AggregateKind,
+  FieldAggregate,
+} from "../types";
+import { WILDCARD, DECODE, getJsonType, createSelectionKey, sanitizeFieldName, ensureUniqueFieldName } from "./json";
+
+// Bump whenever the spec gains fields; 2 added decode/predicate steps, aggregates and pandas settings.
+export const EXTRACTION_SPEC_VERSION = 2;
+
+const FIELD_DTYPES: FieldDtype[] = [
+  "object", "int", "float", "bool", "string", "category", "datetime", "epoch_s", "epoch_ms",
+];
+const CODE_TARGETS: CodeTarget[] = ["pandas", "polars", "pyspark", "sql", "jq"];
+const WILDCARD_MODES: WildcardMode[] = ["explode", "list"];
+const SQL_DIALECTS: SqlDialect[] = ["postgres", "duckdb", "bigquery", "snowflake"];
+const JQ_FORMATS: JqFormat[] = ["json", "csv", "tsv"];
+const RETURN_MODES: ReturnMode[] = ["join", "extracted"];
+const PREDICATE_OPERATORS: PredicateOperator[] = ["equals", "contains"];
+const PREDICATE_MATCHES: PredicateMatch[] = ["first", "last"];
+const AGGREGATE_KINDS: AggregateKind[] = ["count", "sum", "mean", "min", "max", "distinct", "join", "any", "all"];
+
+function pickOption<T extends string>(value: unknown, allowed: T[], fallback: T): T {
+  return allowed.includes(value as T) ? (value as T) : fallback;
+}
+
+function parseSelectionPath(value: unknown, index: number): SelectionPath {
+  if (!Array.isArray(value)) {
+    throw new Error(`Field ${index + 1} has no path.`);
+  }
+  return value.map((step) => {
+    if (typeof step === "string" || (typeof step === "number" && Number.isInteger(step))) {
+      return step;
+    }
+    if (step && typeof step === "object" && (step as { type?: unknown }).type === "wildcard") {
+      return WILDCARD;
+    }
+    if (step && typeof step === "object" && (step as { type?: unknown }).type === "decode") {
+      return DECODE;
+    }
+    if (step && typeof step === "object" && (step as { type?: unknown }).type === "predicate") {
+      const predicate = step as { [key: string]: unknown };
+      if (typeof predicate.field === "string" && predicate.field && typeof predicate.value === "string") {
+        return {
+          type: "predicate" as const,
+          field: predicate.field,
+          operator: pickOption(predicate.operator, PREDICATE_OPERATORS, "equals"),
+          value: predicate.value,
+          match: pickOption(predicate.match, PREDICATE_MATCHES, "first"),
+        };
+      }
+    }
+    throw new Error(`Field ${index + 1} has an invalid path step: ${JSON.stringify(step)}`);
+  });
+}
+
+function parseAggregate(value: unknown): FieldAggregate | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const aggregate = value as { [key: string]: unknown };
+  if (!AGGREGATE_KINDS.includes(aggregate.kind as AggregateKind)) return undefined;
+  return {
+    kind: aggregate.kind as AggregateKind,
+    ...(typeof aggregate.argument === "string" ? { argument: aggregate.argument } : {}),
+    ...(typeof aggregate.multiplyBy === "string" ? { multiplyBy: aggregate.multiplyBy } : {}),
+  };
+}
+
+export function buildExtractionSpec(
+  columnName: string,
+  selections: Map<string, FieldSelection>,
+  output: OutputSettings
+): ExtractionSpec {
+  return {
+    version: EXTRACTION_SPEC_VERSION,
+    columnName,
+    output,
+    fields: Array.from(selections.values()),
+  };
+}
+
+export function parseExtractionSpec(raw: string, defaults: OutputSettings): ExtractionSpec {
+  const parsed = JSON.parse(raw) as JSONValue;
+  if (getJsonType(parsed) !== "object") {
+    throw new Error("Extraction spec must be a JSON object.");
+  }
+  const spec = parsed as { [key: string]: unknown };
+  if (typeof spec.version !== "number") {
+    throw new Error("Extraction spec is missing its version.");
+  }
+  if (spec.version > EXTRACTION_SPEC_VERSION) {
+    throw new Error(
+      `Extraction spec version ${spec.version} is newer than supported version ${EXTRACTION_SPEC_VERSION}; update the app to import it.`
+    );
+  }
+  if (!Array.isArray(spec.fields)) {
+    throw new Error("Extraction spec has no fields list.");
+  }
+
+  const output = (spec.output ?? {}) as { [key: string]: unknown };
+  const fields = spec.fields.map((entry, index): FieldSelection => {
+    const field = (entry ?? {}) as { [key: string]: unknown };
+    const aggregate = parseAggregate(field.aggregate);
+    return {
+      fieldName: sanitizeFieldName(typeof field.fieldName === "string" ? field.fieldName : undefined),
+      rawPath: parseSelectionPath(field.rawPath, index),
+      dtype: pickOption(field.dtype, FIELD_DTYPES, "object"),
+      ...(typeof field.datetimeFormat === "string" ? { datetimeFormat: field.datetimeFormat } : {}),
+      ...(typeof field.timezone === "string" ? { timezone: field.timezone } : {}),
+      ...(typeof field.defaultValue === "string" ? { defaultValue: field.defaultValue } : {}),
+      ...(aggregate ? { aggregate } : {}),
+    };
+  });
+
+  return {
+    version: spec.version,
+    columnName: typeof spec.columnName === "string" ? spec.columnName : "",
+    output: {
+      target: pickOption(output.target, CODE_TARGETS, defaults.target),
+      wildcardMode: pickOption(output.wildcardMode, WILDCARD_MODES, defaults.wildcardMode),
+      sqlDialect: pickOption(output.sqlDialect, SQL_DIALECTS, defaults.sqlDialect),
+      tableName: typeof output.tableName === "string" ? output.tableName : defaults.tableName,
+      jqFormat: pickOption(output.jqFormat, JQ_FORMATS, defaults.jqFormat),
+      literalEvalFallback:
+        typeof output.literalEvalFallback === "boolean"
+          ? output.literalEvalFallback
+          : defaults.literalEvalFallback,
+      functionName: typeof output.functionName === "string" ? output.functionName : defaults.functionName,
+      strictMode: typeof output.strictMode === "boolean" ? output.strictMode : defaults.strictMode,
+      parseErrorColumn:
+        typeof output.parseErrorColumn === "boolean" ? output.parseErrorColumn : defaults.parseErrorColumn,
+      dropSourceColumn:
+        typeof output.dropSourceColumn === "boolean" ? output.dropSourceColumn : defaults.dropSourceColumn,
+      returnMode: pickOption(output.returnMode, RETURN_MODES, defaults.returnMode),
+    },
+    fields,
+  };
+}
+
+export function specToSelections(spec: ExtractionSpec): Map<string, FieldSelection> {
+  const selections = new Map<string, FieldSelection>();
+  spec.fields.forEach((field) => {
+    const selectionKey = createSelectionKey(field.rawPath, field.aggregate?.kind);
+    if (selections.has(selectionKey)) return;
+    selections.set(selectionKey, {
+      ...field,
+      fieldName: ensureUniqueFieldName(field.fieldName, selections),
+    });
+  });
+  return selections;
+}
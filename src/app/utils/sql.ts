@@ -0,0 +1,387 @@
+import type { SelectionPath, FieldSelection, PythonCodeOptions, SqlDialect } from "../types";
+import {
+  WILDCARD,
+  isWildcardStep,
+  isDecodeStep,
+  isPredicateStep,
+  hasWildcard,
+  hasPredicate,
+  hasNegativeIndex,
+} from "./json";
+import { trimPathForColumn, buildDocString } from "./python";
+import { isAggregated } from "./aggregate";
+import { POSTGRES_DATETIME_PATTERN, SNOWFLAKE_DATETIME_PATTERN, translateStrptime } from "./datetime";
+import type { DatetimePatternDialect } from "./datetime";
+
+interface SqlDialectSpec {
+  quoteIdentifier: (name: string) => string;
+  rootSource: (column: string) => string;
+  elementSource: (alias: string) => string;
+  extract: (source: string, path: SelectionPath) => string;
+  collect: (source: string, path: SelectionPath) => string;
+  explodeJoin: (source: string, path: SelectionPath, alias: string) => string;
+  decode: (source: string, path: SelectionPath) => string;
+  cast: (expr: string, selection: FieldSelection) => string;
+}
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function escapeSqlString(value: string): string {
+  return value.replace(/'/g, "''");
+}
+
+function quoteJsonPathKey(key: string): string {
+  return IDENTIFIER_PATTERN.test(key) ? key : `"${key.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+function buildJsonPath(path: SelectionPath): string {
+  return path.reduce<string>((accumulator, step) => {
+    if (isWildcardStep(step)) return `${accumulator}[*]`;
+    if (isDecodeStep(step) || isPredicateStep(step)) return accumulator;
+    if (typeof step === "number") return `${accumulator}[${step}]`;
+    return `${accumulator}.${quoteJsonPathKey(step)}`;
+  }, "$");
+}
+
+function resolveDecodes(
+  spec: SqlDialectSpec,
+  source: string,
+  path: SelectionPath
+): { source: string; path: SelectionPath } {
+  const split = path.findIndex(isDecodeStep);
+  if (split === -1 || path.slice(0, split).some(isWildcardStep)) {
+    return { source, path };
+  }
+  return resolveDecodes(spec, spec.decode(source, path.slice(0, split)), path.slice(split + 1));
+}
+
+function splitAtWildcard(path: SelectionPath): { prefix: SelectionPath; rest: SelectionPath } {
+  const split = path.findIndex(isWildcardStep);
+  return { prefix: path.slice(0, split), rest: path.slice(split + 1) };
+}
+
+function timezoneLiteral(selection: FieldSelection): string | null {
+  const timezone = selection.timezone?.trim();
+  return timezone ? `'${escapeSqlString(timezone)}'` : null;
+}
+
+function formatLiteral(selection: FieldSelection, dialect?: DatetimePatternDialect): string | null {
+  const format = selection.datetimeFormat?.trim();
+  const pattern = format && dialect ? translateStrptime(format, dialect) : format;
+  return pattern ? `'${escapeSqlString(pattern)}'` : null;
+}
+
+function untranslatedFormatNote(selection: FieldSelection, dialect: DatetimePatternDialect): string {
+  const format = selection.datetimeFormat?.trim();
+  if (!format || translateStrptime(format, dialect) !== null) return "";
+  return ` /* format ${format.replace(/\*\//g, "* /")} has no equivalent pattern; using default parsing */`;
+}
+
+function postgresChain(source: string, path: SelectionPath, textLeaf: boolean): string {
+  return path.reduce<string>((accumulator, step, index) => {
+    const operator = textLeaf && index === path.length - 1 ? "->>" : "->";
+    const key = typeof step === "number" ? String(step) : `'${escapeSqlString(String(step))}'`;
+    return `${accumulator}${operator}${key}`;
+  }, source);
+}
+
+const postgres: SqlDialectSpec = {
+  quoteIdentifier: (name) => `"${name.replace(/"/g, '""')}"`,
+  rootSource: (column) => `${column}::jsonb`,
+  elementSource: (alias) => `${alias}.value`,
+  extract: (source, path) =>
+    path.length === 0 ? `${source} #>> '{}'` : postgresChain(source, path, true),
+  collect: (source, path) => `jsonb_path_query_array(${source}, '${escapeSqlString(buildJsonPath(path))}')`,
+  explodeJoin: (source, path, alias) =>
+    `LEFT JOIN LATERAL jsonb_array_elements(${postgresChain(source, path, false)}) AS ${alias}(value) ON TRUE`,
+  decode: (source, path) => `(${postgres.extract(source, path)})::jsonb`,
+  cast: (expr, selection) => {
+    const timezone = timezoneLiteral(selection);
+    const atZone = (timestamp: string) => (timezone ? `(${timestamp} AT TIME ZONE ${timezone})` : timestamp);
+    switch (selection.dtype) {
+      case "int":
+        return `(${expr})::bigint`;
+      case "float":
+        return `(${expr})::double precision`;
+      case "bool":
+        return `(${expr})::boolean`;
+      case "datetime": {
+        const format = formatLiteral(selection, POSTGRES_DATETIME_PATTERN);
+        return atZone(
+          format
+            ? `to_timestamp(${expr}, ${format})`
+            : `(${expr})::timestamptz${untranslatedFormatNote(selection, POSTGRES_DATETIME_PATTERN)}`
+        );
+      }
+      case "epoch_s":
+        return atZone(`to_timestamp((${expr})::double precision)`);
+      case "epoch_ms":
+        return atZone(`to_timestamp((${expr})::double precision / 1000)`);
+      default:
+        return expr;
+    }
+  },
+};
+
+const duckdb: SqlDialectSpec = {
+  quoteIdentifier: (name) => `"${name.replace(/"/g, '""')}"`,
+  rootSource: (column) => column,
+  elementSource: (alias) => `${alias}.value`,
+  extract: (source, path) => `json_extract_string(${source}, '${escapeSqlString(buildJsonPath(path))}')`,
+  collect: (source, path) => `json_extract(${source}, '${escapeSqlString(buildJsonPath(path))}')`,
+  explodeJoin: (source, path, alias) =>
+    `LEFT JOIN LATERAL (SELECT unnest(json_extract(${source}, '${escapeSqlString(
+      buildJsonPath([...path, WILDCARD])
+    )}')) AS value) AS ${alias} ON TRUE`,
+  decode: (source, path) => duckdb.extract(source, path),
+  cast: (expr, selection) => {
+    const timezone = timezoneLiteral(selection);
+    const atZone = (timestamp: string) => (timezone ? `timezone(${timezone}, ${timestamp})` : timestamp);
+    switch (selection.dtype) {
+      case "int":
+        return `TRY_CAST(${expr} AS BIGINT)`;
+      case "float":
+        return `TRY_CAST(${expr} AS DOUBLE)`;
+      case "bool":
+        return `TRY_CAST(${expr} AS BOOLEAN)`;
+      case "category":
+        return `${expr}::VARCHAR`;
+      case "datetime": {
+        const format = formatLiteral(selection);
+        return atZone(format ? `try_strptime(${expr}, ${format})` : `TRY_CAST(${expr} AS TIMESTAMPTZ)`);
+      }
+      case "epoch_s":
+        return atZone(`to_timestamp(TRY_CAST(${expr} AS DOUBLE))`);
+      case "epoch_ms":
+        return atZone(`epoch_ms(TRY_CAST(${expr} AS BIGINT))`);
+      default:
+        return expr;
+    }
+  },
+};
+
+function bigQueryCollect(source: string, path: SelectionPath, depth: number): string {
+  const { prefix, rest } = splitAtWildcard(path);
+  const alias = `w${depth}`;
+  const unnest = `UNNEST(JSON_QUERY_ARRAY(${source}, '${escapeSqlString(buildJsonPath(prefix))}')) AS ${alias}`;
+  if (!hasWildcard(rest)) {
+    return `ARRAY(SELECT JSON_VALUE(${alias}, '${escapeSqlString(buildJsonPath(rest))}') FROM ${unnest})`;
+  }
+  return `ARRAY(SELECT item FROM ${unnest}, UNNEST(${bigQueryCollect(alias, rest, depth + 1)}) AS item)`;
+}
+
+const bigquery: SqlDialectSpec = {
+  quoteIdentifier: (name) => `\`${name.replace(/`/g, "\\`")}\``,
+  rootSource: (column) => column,
+  elementSource: (alias) => alias,
+  extract: (source, path) => `JSON_VALUE(${source}, '${escapeSqlString(buildJsonPath(path))}')`,
+  collect: (source, path) => bigQueryCollect(source, path, 1),
+  explodeJoin: (source, path, alias) =>
+    `LEFT JOIN UNNEST(JSON_QUERY_ARRAY(${source}, '${escapeSqlString(buildJsonPath(path))}')) AS ${alias}`,
+  decode: (source, path) => bigquery.extract(source, path),
+  cast: (expr, selection) => {
+    const timezone = timezoneLiteral(selection);
+    const atZone = (timestamp: string) => (timezone ? `DATETIME(${timestamp}, ${timezone})` : timestamp);
+    switch (selection.dtype) {
+      case "int":
+        return `SAFE_CAST(${expr} AS INT64)`;
+      case "float":
+        return `SAFE_CAST(${expr} AS FLOAT64)`;
+      case "bool":
+        return `SAFE_CAST(${expr} AS BOOL)`;
+      case "datetime": {
+        const format = formatLiteral(selection);
+        return atZone(format ? `SAFE.PARSE_TIMESTAMP(${format}, ${expr})` : `SAFE_CAST(${expr} AS TIMESTAMP)`);
+      }
+      case "epoch_s":
+        return atZone(`TIMESTAMP_SECONDS(SAFE_CAST(${expr} AS INT64))`);
+      case "epoch_ms":
+        return atZone(`TIMESTAMP_MILLIS(SAFE_CAST(${expr} AS INT64))`);
+      default:
+        return expr;
+    }
+  },
+};
+
+function snowflakePath(source: string, path: SelectionPath): string {
+  if (path.length === 0) return source;
+  const pathString = path.reduce<string>((accumulator, step, index) => {
+    if (typeof step === "number") return `${accumulator}[${step}]`;
+    const key = IDENTIFIER_PATTERN.test(String(step)) ? String(step) : `"${String(step).replace(/"/g, '\\"')}"`;
+    return `${accumulator}${index === 0 ? "" : "."}${key}`;
+  }, "");
+  return `GET_PATH(${source}, '${escapeSqlString(pathString)}')`;
+}
+
+function snowflakeCollect(source: string, path: SelectionPath, depth: number): string {
+  const { prefix, rest } = splitAtWildcard(path);
+  const variable = `x${depth}`;
+  const body = hasWildcard(rest) ? snowflakeCollect(variable, rest, depth + 1) : snowflakePath(variable, rest);
+  const transformed = `TRANSFORM(${snowflakePath(source, prefix)}, ${variable} -> ${body})`;
+  return hasWildcard(rest) ? `ARRAY_FLATTEN(${transformed})` : transformed;
+}
+
+const snowflake: SqlDialectSpec = {
+  quoteIdentifier: (name) => `"${name.replace(/"/g, '""')}"`,
+  rootSource: (column) => `PARSE_JSON(${column})`,
+  elementSource: (alias) => `${alias}.value`,
+  extract: (source, path) => snowflakePath(source, path),
+  collect: (source, path) => snowflakeCollect(source, path, 1),
+  explodeJoin: (source, path, alias) =>
+    `, LATERAL FLATTEN(input => ${snowflakePath(source, path)}, outer => TRUE) AS ${alias}`,
+  decode: (source, path) => `TRY_PARSE_JSON(${snowflakePath(source, path)}::string)`,
+  cast: (expr, selection) => {
+    const timezone = timezoneLiteral(selection);
+    const atZone = (timestamp: string) => (timezone ? `CONVERT_TIMEZONE(${timezone}, ${timestamp})` : timestamp);
+    switch (selection.dtype) {
+      case "int":
+        return `TRY_TO_NUMBER(${expr}::string)`;
+      case "float":
+        return `TRY_TO_DOUBLE(${expr}::string)`;
+      case "bool":
+        return `TRY_TO_BOOLEAN(${expr}::string)`;
+      case "datetime": {
+        const format = formatLiteral(selection, SNOWFLAKE_DATETIME_PATTERN);
+        return atZone(
+          format
+            ? `TRY_TO_TIMESTAMP_TZ(${expr}::string, ${format})`
+            : `TRY_TO_TIMESTAMP_TZ(${expr}::string)${untranslatedFormatNote(selection, SNOWFLAKE_DATETIME_PATTERN)}`
+        );
+      }
+      case "epoch_s":
+        return atZone(`TO_TIMESTAMP(${expr}::number, 0)`);
+      case "epoch_ms":
+        return atZone(`TO_TIMESTAMP(${expr}::number, 3)`);
+      default:
+        return `${expr}::string`;
+    }
+  },
+};
+
+const DIALECTS: Record<SqlDialect, SqlDialectSpec> = {
+  postgres,
+  duckdb,
+  bigquery,
+  snowflake,
+};
+
+interface SqlField {
+  selection: FieldSelection;
+  path: SelectionPath;
+}
+
+function unsupportedReason({ selection, path }: SqlField): string | null {
+  if (isAggregated(selection)) return "array aggregates are not supported in SQL";
+  if (hasPredicate(path) || hasNegativeIndex(path)) {
+    return "sibling-match and negative index steps are not supported in SQL";
+  }
+  return null;
+}
+
+function buildSelectExpression(
+  spec: SqlDialectSpec,
+  selection: FieldSelection,
+  expr: string,
+  coerce: boolean
+): string {
+  const value = coerce ? spec.cast(expr, selection) : expr;
+  return `${value} AS ${spec.quoteIdentifier(selection.fieldName)}`;
+}
+
+function buildExplodePlan(
+  spec: SqlDialectSpec,
+  source: string,
+  fields: SqlField[],
+  joins: string[],
+  expressions: string[]
+): void {
+  const groups = new Map<string, { prefix: SelectionPath; fields: SqlField[] }>();
+  fields.forEach((field) => {
+    if (!hasWildcard(field.path)) {
+      const resolved = resolveDecodes(spec, source, field.path);
+      expressions.push(
+        buildSelectExpression(spec, field.selection, spec.extract(resolved.source, resolved.path), true)
+      );
+      return;
+    }
+    const { prefix, rest } = splitAtWildcard(field.path);
+    const groupKey = JSON.stringify(prefix);
+    const group = groups.get(groupKey) ?? { prefix, fields: [] };
+    group.fields.push({ selection: field.selection, path: rest });
+    groups.set(groupKey, group);
+  });
+
+  groups.forEach((group) => {
+    const alias = `e${joins.length + 1}`;
+    const resolved = resolveDecodes(spec, source, group.prefix);
+    joins.push(spec.explodeJoin(resolved.source, resolved.path, alias));
+    buildExplodePlan(spec, spec.elementSource(alias), group.fields, joins, expressions);
+  });
+}
+
+function buildSqlCode(
+  selections: FieldSelection[],
+  columnName: string,
+  tableName: string,
+  dialect: SqlDialect,
+  options: PythonCodeOptions
+): string {
+  const spec = DIALECTS[dialect];
+  const source = spec.rootSource(`t.${spec.quoteIdentifier(columnName)}`);
+  const explode =
+    selections.some((selection) => hasWildcard(selection.rawPath) && !isAggregated(selection)) &&
+    options.wildcardMode === "explode";
+  const fields = selections.map((selection) => ({
+    selection,
+    path: trimPathForColumn(selection.rawPath, columnName),
+  }));
+
+  const joins: string[] = [];
+  const expressions: string[] = [];
+  fields.forEach((field) => {
+    const reason = unsupportedReason(field);
+    if (reason) expressions.push(buildSelectExpression(spec, field.selection, `NULL /* ${reason} */`, false));
+  });
+  const supported = fields.filter((field) => unsupportedReason(field) === null);
+  if (explode) {
+    buildExplodePlan(spec, source, supported, joins, expressions);
+  } else {
+    supported.forEach(({ selection, path }) => {
+      const resolved = resolveDecodes(spec, source, path);
+      if (resolved.path.some(isDecodeStep)) {
+        expressions.push(
+          buildSelectExpression(spec, selection, "NULL /* decoding JSON strings inside [*] needs explode mode */", false)
+        );
+        return;
+      }
+      expressions.push(
+        hasWildcard(resolved.path)
+          ? buildSelectExpression(spec, selection, spec.collect(resolved.source, resolved.path), false)
+          : buildSelectExpression(spec, selection, spec.extract(resolved.source, resolved.path), true)
+      );
+    });
+  }
+
+  const lines = [
+    `-- ${buildDocString(selections, columnName, explode)}`,
+    `SELECT`,
+    `  t.*,`,
+    expressions.map((expression) => `  ${expression}`).join(",\n"),
+    `FROM ${tableName.trim() || "my_table"} AS t`,
+    ...joins,
+  ];
+  return `${lines.join("\n")};`;
+}
+
+export function generateSqlCode(
+  selections: Map<string, FieldSelection>,
+  columnName: string,
+  tableName: string,
+  dialect: SqlDialect,
+  options: PythonCodeOptions
+): string {
+  if (selections.size === 0) {
+    return "";
+  }
+  return buildSqlCode(Array.from(selections.values()), columnName, tableName, dialect, options);
+}
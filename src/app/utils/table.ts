@@ -0,0 +1,122 @@
+import type { JSONValue, JSONObject, TableSource } from "../types";
+import { getJsonType } from "./json";
+
+export function isTableFileName(name: string): boolean {
+  const lower = name.toLowerCase();
+  return lower.endsWith(".csv") || lower.endsWith(".tsv");
+}
+
+function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") index += 1;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (inQuotes) {
+    throw new Error(`Unterminated quoted field in row ${rows.length + 1}.`);
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.length > 1 || cells[0] !== "");
+}
+
+function cellText(value: JSONValue | undefined): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value, null, 2);
+}
+
+function parseJsonRows(text: string, fileName: string): TableSource {
+  const objects: JSONObject[] = [];
+  text.split("\n").forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) return;
+    let parsed: JSONValue;
+    try {
+      parsed = JSON.parse(line) as JSONValue;
+    } catch (error) {
+      throw new Error(`Line ${index + 1}: ${error instanceof Error ? error.message : "Invalid JSON"}`);
+    }
+    if (getJsonType(parsed) !== "object") {
+      throw new Error(`Line ${index + 1}: each row must be a JSON object.`);
+    }
+    objects.push(parsed as JSONObject);
+  });
+
+  const columns: string[] = [];
+  const seen = new Set<string>();
+  objects.forEach((object) => {
+    Object.keys(object).forEach((key) => {
+      if (seen.has(key)) return;
+      seen.add(key);
+      columns.push(key);
+    });
+  });
+  return { fileName, columns, rows: objects.map((object) => columns.map((column) => cellText(object[column]))) };
+}
+
+export function parseTable(text: string, fileName: string): TableSource {
+  const content = text.replace(/^\uFEFF/, "");
+  if (!isTableFileName(fileName)) {
+    return parseJsonRows(content, fileName);
+  }
+  const delimiter = fileName.toLowerCase().endsWith(".tsv") ? "\t" : ",";
+  const [header, ...rows] = parseDelimited(content, delimiter);
+  if (!header) {
+    throw new Error("The table is empty.");
+  }
+  const columns = header.map((column, index) => column.trim() || `column_${index + 1}`);
+  return {
+    fileName,
+    columns,
+    rows: rows.map((cells) => columns.map((_column, index) => cells[index] ?? "")),
+  };
+}
+
+export function detectJsonColumn(table: TableSource): string | null {
+  const index = table.columns.findIndex((_column, columnIndex) => {
+    const sample = table.rows.map((row) => row[columnIndex].trim()).find((cell) => cell !== "");
+    if (!sample || (!sample.startsWith("{") && !sample.startsWith("["))) return false;
+    try {
+      JSON.parse(sample);
+      return true;
+    } catch {
+      return false;
+    }
+  });
+  return index === -1 ? null : table.columns[index];
+}
+
+export function buildColumnRecords(table: TableSource, column: string): string {
+  const columnIndex = table.columns.indexOf(column);
+  if (columnIndex === -1) return "";
+  return table.rows.map((row) => row[columnIndex].replace(/\r?\n/g, " ")).join("\n");
+}
@@ -0,0 +1,214 @@
+import type {
+  JSONValue,
+  JSONObject,
+  JSONArray,
+  InputMode,
+  Path,
+  ParseProgress,
+  ParseSource,
+  ParseWorkerRequest,
+  ParseWorkerResponse,
+  HandoffEntry,
+} from "../types";
+import { ESTIMATE_CAP, MAX_INLINE_TEXT_BYTES, countNodes } from "../utils/json";
+import { parseRecords, mergeRecords, collectPathStats } from "../utils/records";
+import { JsonSyntaxError, parseLenient, describeSyntaxError } from "../utils/lenient";
+import { PREVIEW_RECORD_LIMIT } from "../utils/preview";
+
+const READ_PROGRESS_STEP = 1024 * 1024;
+const INDEX_PROGRESS_STEP = 100000;
+const HANDOFF_BATCH_NODES = 20000;
+
+const post = (message: ParseWorkerResponse) => {
+  self.postMessage(message);
+};
+
+const progress: ParseProgress = {
+  phase: "reading",
+  bytesRead: 0,
+  totalBytes: 0,
+  nodesIndexed: 0,
+  totalNodes: 0,
+};
+
+const reportProgress = (changes: Partial<ParseProgress>) => {
+  Object.assign(progress, changes);
+  post({ type: "progress", progress: { ...progress } });
+};
+
+async function readSource(source: ParseSource): Promise<string> {
+  if (source.kind === "text") {
+    reportProgress({ bytesRead: source.text.length, totalBytes: source.text.length });
+    return source.text;
+  }
+
+  const { file } = source;
+  reportProgress({ totalBytes: file.size });
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+  const parts: string[] = [];
+  let bytesRead = 0;
+  let lastReported = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytesRead += value.byteLength;
+    parts.push(decoder.decode(value, { stream: true }));
+    if (bytesRead - lastReported >= READ_PROGRESS_STEP) {
+      lastReported = bytesRead;
+      reportProgress({ bytesRead });
+    }
+  }
+  parts.push(decoder.decode());
+  reportProgress({ bytesRead });
+  return parts.join("");
+}
+
+function indexNodes(root: JSONValue): { totalNodes: number; estimated: number } {
+  let totalNodes = 0;
+  let expandable = 0;
+  const stack: JSONValue[] = [root];
+  while (stack.length > 0) {
+    const current = stack.pop() as JSONValue;
+    totalNodes += 1;
+    if (current !== null && typeof current === "object") {
+      expandable += 1;
+      for (const child of Array.isArray(current) ? current : Object.values(current)) {
+        stack.push(child);
+      }
+    }
+    if (totalNodes % INDEX_PROGRESS_STEP === 0) {
+      reportProgress({ nodesIndexed: totalNodes });
+    }
+  }
+  reportProgress({ nodesIndexed: totalNodes, totalNodes });
+  return { totalNodes, estimated: Math.min(expandable, ESTIMATE_CAP) };
+}
+
+function createShell(value: JSONValue): JSONValue {
+  return Array.isArray(value) ? [] : {};
+}
+
+function childEntries(value: JSONValue): [string | number, JSONValue][] {
+  return Array.isArray(value)
+    ? (value as JSONArray).map((child, index) => [index, child])
+    : Object.entries(value as JSONObject);
+}
+
+function handOff(root: JSONValue): void {
+  let batch: HandoffEntry[] = [];
+  let batchNodes = 0;
+
+  const flush = () => {
+    if (batch.length === 0) return;
+    post({ type: "chunk", entries: batch, nodes: batchNodes });
+    batch = [];
+    batchNodes = 0;
+  };
+
+  const emit = (parentPath: Path, key: string | number, value: JSONValue) => {
+    const size = countNodes(value, HANDOFF_BATCH_NODES + 1);
+    if (size <= HANDOFF_BATCH_NODES) {
+      batch.push([parentPath, key, value]);
+      batchNodes += size;
+    } else {
+      batch.push([parentPath, key, createShell(value)]);
+      batchNodes += 1;
+      const path = [...parentPath, key];
+      childEntries(value).forEach(([childKey, child]) => emit(path, childKey, child));
+    }
+    if (batchNodes >= HANDOFF_BATCH_NODES) flush();
+  };
+
+  childEntries(root).forEach(([key, child]) => emit([], key, child));
+  flush();
+}
+
+interface ParsedInput {
+  data: JSONValue;
+  records: JSONValue[] | null;
+  repairs: string[];
+}
+
+function parseInput(raw: string, mode: InputMode, lenient: boolean): ParsedInput {
+  const repairs = new Set<string>();
+  const parseValue = (text: string): JSONValue => {
+    try {
+      return JSON.parse(text) as JSONValue;
+    } catch (error) {
+      if (!lenient) {
+        parseLenient(text, { strict: true });
+        throw error;
+      }
+      const result = parseLenient(text);
+      result.repairs.forEach((repair) => repairs.add(repair));
+      return result.value;
+    }
+  };
+
+  if (mode === "records") {
+    const records = parseRecords(raw, parseValue);
+    if (records.length === 0) {
+      throw new Error("No records found.");
+    }
+    return { data: mergeRecords(records), records, repairs: Array.from(repairs) };
+  }
+  return { data: parseValue(raw), records: null, repairs: Array.from(repairs) };
+}
+
+async function handleRequest({ source, mode, lenient }: ParseWorkerRequest): Promise<void> {
+  const raw = await readSource(source);
+
+  reportProgress({ phase: "parsing" });
+  let parsed: ParsedInput;
+  try {
+    parsed = parseInput(raw, mode, lenient);
+  } catch (error) {
+    if (!(error instanceof JsonSyntaxError)) throw error;
+    const details = describeSyntaxError(raw, error);
+    post({ type: "error", message: error.message, details });
+    return;
+  }
+
+  const { data, records, repairs } = parsed;
+  const pathStats = records ? Array.from(collectPathStats(records)) : null;
+  const recordCount = records ? records.length : 0;
+  const inlineFile = source.kind === "file" && source.file.size <= MAX_INLINE_TEXT_BYTES;
+  let strictText: string | null = null;
+  if (repairs.length > 0 && (source.kind === "text" || inlineFile)) {
+    strictText = records
+      ? records.map((record) => JSON.stringify(record)).join("\n")
+      : JSON.stringify(data, null, 2);
+  }
+
+  reportProgress({ phase: "indexing" });
+  const { totalNodes, estimated } = indexNodes(data);
+
+  reportProgress({ phase: "loading", nodesIndexed: 0 });
+  const isLarge = totalNodes > HANDOFF_BATCH_NODES && data !== null && typeof data === "object";
+  post({
+    type: "start",
+    raw: inlineFile ? raw : null,
+    root: isLarge ? createShell(data) : data,
+    estimated,
+    totalNodes,
+    pathStats,
+    recordCount,
+    sampleRecords: records ? records.slice(0, PREVIEW_RECORD_LIMIT) : null,
+    repairs,
+    strictText,
+  });
+  if (isLarge) handOff(data);
+  post({ type: "done" });
+}
+
+self.onmessage = (event: MessageEvent<ParseWorkerRequest>) => {
+  handleRequest(event.data).catch((error: unknown) => {
+    post({
+      type: "error",
+      message: error instanceof Error ? error.message : "Unknown parsing error",
+      details: null,
+    });
+  });
+};